@@ -1,5 +1,7 @@
 import { HTTPServer } from "./dist/server/http-server.js";
 import { MusicServer } from "./dist/server/music-server.js";
+import { AudioStreamer } from "./dist/server/audio-streamer.js";
+import { WavFileReader } from "./dist/server/wav-file-reader.js";
 import { generateUniqueId } from "./dist/util/unique-id.js";
 import fs from "fs";
 import path from "path";
@@ -15,7 +17,7 @@ const ART_FILE = path.join(
   path.dirname(fileURLToPath(import.meta.url)),
   "example-assets/server/927-square.png",
 );
-const REPLAY_INTERVAL = 10000; // Replay WAV file every 5 seconds
+const START_DELAY = 10000; // Start playing 10 seconds after startup or a stop
 
 const logger = {
   log: (...args) =>
@@ -24,47 +26,6 @@ const logger = {
     console.error(new Date().toISOString(), "ERROR:", ...args),
 };
 
-/**
- * Parse a WAV file and extract audio data and format information
- * This is a simplified parser that works with standard PCM WAV files
- */
-function parseWavFile(filePath) {
-  // Read file synchronously
-  const buffer = fs.readFileSync(filePath);
-
-  // Verify WAV header
-  const header = buffer.toString("utf8", 0, 4);
-  if (header !== "RIFF") {
-    throw new Error("Not a valid WAV file");
-  }
-
-  // Basic WAV header parsing
-  const sampleRate = buffer.readUInt32LE(24);
-  const numChannels = buffer.readUInt16LE(22);
-  const bitsPerSample = buffer.readUInt16LE(34);
-
-  logger.log(
-    `WAV file info: ${sampleRate}Hz, ${numChannels} channels, ${bitsPerSample} bits`,
-  );
-
-  // Find data chunk (simplistic approach - real WAV files might have different chunks)
-  let dataOffset = 44; // Default for standard WAV files
-  let dataSize = buffer.readUInt32LE(40);
-
-  // Extract audio data as Int16Array (assuming PCM format)
-  const audioData = new Int16Array(dataSize / 2);
-  for (let i = 0; i < audioData.length; i++) {
-    audioData[i] = buffer.readInt16LE(dataOffset + i * 2);
-  }
-
-  return {
-    sampleRate,
-    channels: numChannels,
-    bitDepth: bitsPerSample,
-    audioData,
-  };
-}
-
 async function sleep(ms) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -74,8 +35,6 @@ async function sleep(ms) {
  */
 async function main() {
   try {
-    logger.log(`Reading WAV file: ${WAV_FILE}`);
-    const wavData = parseWavFile(WAV_FILE);
     const artData = fs.readFileSync(ART_FILE);
 
     // Create and start the Source server
@@ -101,96 +60,116 @@ async function main() {
       group.addClient(client);
     });
 
-    // Start audio session and stream periodically
+    // The group plays a queue of the sample file on repeat
+    const sample = await WavFileReader.open(WAV_FILE);
+    for (const title of ["Sample Audio", "Sample Audio (Reprise)"]) {
+      group.queue.add({
+        title,
+        artist: "Someone on the internet",
+        duration: sample.duration,
+        data: WAV_FILE,
+      });
+    }
+    await sample.close();
+    group.queue.repeat = "all";
+
+    // Play the current queue item, then continue with the next one
     const playAudio = async () => {
+      const item = group.queue.current;
+      if (!item) {
+        return;
+      }
       logger.log("");
-      logger.log("Sending WAV audio data to connected clients");
-      let endRequested = false;
+      logger.log(`Playing ${item.title} from ${item.data}`);
+      const wavFile = await WavFileReader.open(item.data);
+      const { format } = wavFile;
+      logger.log(
+        `WAV file info: ${format.sampleRate}Hz, ${format.channels} channels, ${
+          format.bitDepth
+        } bits${format.isFloat ? " float" : ""}`,
+      );
+      // The file is streamed from disk, in a format the clients support
       const session = group.startSession(
-        "pcm",
-        wavData.sampleRate,
-        wavData.channels,
-        wavData.bitDepth,
+        format.isFloat ? "pcm_float" : "pcm",
+        format.sampleRate,
+        format.channels,
+        format.isFloat ? 32 : Math.max(16, format.bitDepth),
+      );
+      // Open the file at the position to seek to
+      const streamer = new AudioStreamer(session, (position) =>
+        wavFile.read(
+          undefined,
+          Math.round((position / 1000000) * format.sampleRate),
+        ),
       );
-      session.on("stream-command", (command) => {
-        if (command.command === "stop") {
-          endRequested = true;
-          logger.log("Stop command received, stopping audio playback.");
+      let stopped = false;
+      session.on("stream-command", ({ command, position }) => {
+        switch (command) {
+          case "stop":
+            stopped = true;
+            streamer.stop();
+            logger.log("Stop command received, stopping audio playback.");
+            break;
+          case "pause":
+            session.pause();
+            break;
+          case "play":
+            session.resume();
+            break;
+          case "seek":
+            if (position !== undefined) {
+              session.seek(position);
+            }
+            break;
         }
       });
       session.on("player-state", (state) => {
         logger.log("Player state updated:", state);
       });
+      // Title, artist and such come from the queue, the group handles the
+      // queue commands
       session.sendMetadata({
-        title: "Sample Audio",
-        artist: "Someone on the internet",
-        album: null,
-        year: null,
-        track: null,
-        group_members: [],
-        support_commands: ["play", "stop"],
-        repeat: "off",
-        shuffle: false,
+        ...session.metadata,
+        support_commands: [
+          ...session.metadata.support_commands,
+          "play",
+          "pause",
+          "stop",
+          "seek",
+        ],
       });
       session.sendMediaArt("image/png", artData);
-      let start = performance.timeOrigin + performance.now() + 500;
-      const timeSlice = 50; // ms
-      const bytesPerSlice =
-        (timeSlice / 1000) * wavData.sampleRate * wavData.channels;
-
-      for (let i = 0; i < wavData.audioData.length; i += bytesPerSlice) {
-        if (endRequested) {
-          break;
-        }
-        // Mimick metadata update
-        if (i % (bytesPerSlice * 10) === 0) {
-          session.sendMetadata({
-            title: `Sample Audio ${i}`,
-            artist: "Someone on the internet",
-            album: null,
-            year: null,
-            track: null,
-            group_members: [],
-            support_commands: ["play", "stop"],
-            repeat: "off",
-            shuffle: false,
-          });
-        }
-
-        const chunk = wavData.audioData.slice(i, i + bytesPerSlice);
-        // Only do actual audio sending if there are clients connected
-        if (group.size > 0) {
-          session.sendPCMAudioChunk(
-            chunk,
-            // We send microsecond timestamp as integer
-            Math.round(start * 1000),
-          );
-        }
-        // Usually equal to timeSlice, but shorter for last chunk
-        start += (chunk.length / bytesPerSlice) * timeSlice;
 
-        // Send the audio if it should start playing within 1000 ms
-        const sleepDuration =
-          start - performance.timeOrigin - performance.now() - 1000;
-        if (sleepDuration > 0) {
-          await sleep(sleepDuration);
-        }
+      // Skipping to another item stops this one
+      let skipped = false;
+      const handleSkip = () => {
+        skipped = true;
+        streamer.stop();
+      };
+      group.queue.on("current-change", handleSkip);
+      await streamer.start();
+      group.queue.off("current-change", handleSkip);
+
+      if (!skipped) {
+        // end session after audio is done playing.
+        await sleep(
+          (streamer.endTimestamp - musicServer.clock.now()) / 1000 +
+            // some extra time to make sure all clients have received the audio
+            100,
+        );
       }
-      // end session after audio is done playing.
-      await sleep(
-        start -
-          Date.now() +
-          // some extra time to make sure all clients have received the audio
-          100,
-      );
       session.end();
-
-      await sleep(REPLAY_INTERVAL);
+      await wavFile.close();
+      if (stopped) {
+        await sleep(START_DELAY);
+      } else if (!skipped) {
+        group.queue.advance();
+      }
       playAudio();
     };
 
-    // Then play periodically so new clients will eventually hear the audio
-    setTimeout(playAudio, REPLAY_INTERVAL);
+    // Start playing a bit after startup
+    setTimeout(playAudio, START_DELAY);
 
     // Handle process termination
     process.on("SIGINT", () => {
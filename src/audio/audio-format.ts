@@ -0,0 +1,10 @@
+export interface AudioFormat {
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+}
+
+// Clients with an identical format key share a single encoded stream
+export const audioFormatKey = (format: AudioFormat): string =>
+  `${format.codec}/${format.sampleRate}/${format.channels}/${format.bitDepth}`;
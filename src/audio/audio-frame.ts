@@ -0,0 +1,49 @@
+export type ChannelPosition =
+  | "FL" // Front left
+  | "FR" // Front right
+  | "FC" // Front centre
+  | "LFE" // Low frequency effects
+  | "BL" // Back left
+  | "BR" // Back right
+  | "SL" // Side left
+  | "SR"; // Side right
+
+// Channel order we use on the wire, matching the WAVE channel mask order
+export const STANDARD_CHANNEL_LAYOUTS: Record<number, ChannelPosition[]> = {
+  1: ["FC"],
+  2: ["FL", "FR"],
+  3: ["FL", "FR", "FC"],
+  4: ["FL", "FR", "BL", "BR"],
+  5: ["FL", "FR", "FC", "BL", "BR"],
+  6: ["FL", "FR", "FC", "LFE", "BL", "BR"],
+  8: ["FL", "FR", "FC", "LFE", "BL", "BR", "SL", "SR"],
+};
+
+export interface AudioFrame {
+  // Server timestamp in microseconds at which the first sample should play
+  timestamp: number;
+  sampleRate: number;
+  // One array per channel with samples in range [-1, 1], all equal length
+  channelData: Float32Array[];
+  // Position of each channel. Defaults to the standard layout for the
+  // number of channels.
+  layout?: ChannelPosition[];
+}
+
+// Return the channels of a frame in standard layout order.
+export function toStandardLayout(frame: AudioFrame): Float32Array[] {
+  const { channelData, layout } = frame;
+  if (!layout) {
+    return channelData;
+  }
+  if (layout.length !== channelData.length) {
+    throw new Error(
+      `Layout describes ${layout.length} channels, frame has ${channelData.length}`,
+    );
+  }
+  const standard = STANDARD_CHANNEL_LAYOUTS[channelData.length];
+  if (!standard || !standard.every((position) => layout.includes(position))) {
+    throw new Error(`Unsupported channel layout ${layout.join(", ")}`);
+  }
+  return standard.map((position) => channelData[layout.indexOf(position)]);
+}
@@ -0,0 +1,19 @@
+// SessionInfo.codec_header carries binary codec setup data as base64 so it
+// can travel inside the JSON session/start message.
+
+export function encodeCodecHeader(data: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < data.length; i++) {
+    binary += String.fromCharCode(data[i]);
+  }
+  return btoa(binary);
+}
+
+export function decodeCodecHeader(header: string): Uint8Array {
+  const binary = atob(header);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return data;
+}
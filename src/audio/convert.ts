@@ -0,0 +1,202 @@
+// Helpers to convert planar float audio ([-1, 1], one array per channel)
+// between channel layouts and sample rates.
+
+// Downmix coefficient for centre and surround channels (-3dB)
+const MIX_LEVEL = Math.SQRT1_2;
+
+export function convertChannels(
+  channelData: Float32Array[],
+  channels: number,
+): Float32Array[] {
+  const sourceChannels = channelData.length;
+  if (sourceChannels === channels) {
+    return channelData;
+  }
+  const length = channelData[0].length;
+  const output = Array.from(
+    { length: channels },
+    () => new Float32Array(length),
+  );
+
+  if (channels === 1) {
+    // Average everything into mono
+    for (const source of channelData) {
+      for (let i = 0; i < length; i++) {
+        output[0][i] += source[i] / sourceChannels;
+      }
+    }
+    return output;
+  }
+
+  if (sourceChannels === 1) {
+    // Mono goes to the front left and right speakers
+    output[0].set(channelData[0]);
+    output[1].set(channelData[0]);
+    return output;
+  }
+
+  if (sourceChannels === 6 && channels === 2) {
+    // 5.1 (L, R, C, LFE, Ls, Rs) to stereo, dropping LFE
+    const [left, right, centre, , leftSurround, rightSurround] = channelData;
+    const scale = 1 / (1 + 2 * MIX_LEVEL);
+    for (let i = 0; i < length; i++) {
+      const mid = centre[i] * MIX_LEVEL;
+      output[0][i] = (left[i] + mid + leftSurround[i] * MIX_LEVEL) * scale;
+      output[1][i] = (right[i] + mid + rightSurround[i] * MIX_LEVEL) * scale;
+    }
+    return output;
+  }
+
+  if (sourceChannels < channels) {
+    // Upmix by keeping existing channels in place, others stay silent
+    for (let c = 0; c < sourceChannels; c++) {
+      output[c].set(channelData[c]);
+    }
+    return output;
+  }
+
+  // Generic downmix: fold extra channels onto the available ones
+  const counts = new Array(channels).fill(0);
+  for (let c = 0; c < sourceChannels; c++) {
+    counts[c % channels]++;
+  }
+  for (let c = 0; c < sourceChannels; c++) {
+    const target = output[c % channels];
+    const scale = 1 / counts[c % channels];
+    for (let i = 0; i < length; i++) {
+      target[i] += channelData[c][i] * scale;
+    }
+  }
+  return output;
+}
+
+// Cutoff of the anti-aliasing filter as a fraction of the target rate,
+// a little below the Nyquist frequency of 0.5
+const LOW_PASS_CUTOFF = 0.45;
+// Q of the two biquad sections of a 4th order Butterworth filter
+const BUTTERWORTH_Q = [0.5412, 1.3066];
+
+// 4th order Butterworth low-pass filter made of two biquad sections. Keeps
+// its state between calls like the resampler.
+class LowPassFilter {
+  private readonly sections: Array<{
+    b0: number;
+    b1: number;
+    b2: number;
+    a1: number;
+    a2: number;
+  }>;
+  // Per channel and section the two delayed values of transposed direct
+  // form II
+  private state: Float64Array[] = [];
+
+  constructor(sampleRate: number, cutoff: number) {
+    const w0 = (2 * Math.PI * cutoff) / sampleRate;
+    const cos = Math.cos(w0);
+    this.sections = BUTTERWORTH_Q.map((q) => {
+      const alpha = Math.sin(w0) / (2 * q);
+      const a0 = 1 + alpha;
+      return {
+        b0: (1 - cos) / 2 / a0,
+        b1: (1 - cos) / a0,
+        b2: (1 - cos) / 2 / a0,
+        a1: (-2 * cos) / a0,
+        a2: (1 - alpha) / a0,
+      };
+    });
+  }
+
+  process(channelData: Float32Array[]): Float32Array[] {
+    return channelData.map((input, c) => {
+      if (!this.state[c]) {
+        this.state[c] = new Float64Array(this.sections.length * 2);
+      }
+      const state = this.state[c];
+      const output = new Float32Array(input.length);
+      for (let i = 0; i < input.length; i++) {
+        let sample = input[i];
+        this.sections.forEach(({ b0, b1, b2, a1, a2 }, s) => {
+          const result = b0 * sample + state[s * 2];
+          state[s * 2] = b1 * sample - a1 * result + state[s * 2 + 1];
+          state[s * 2 + 1] = b2 * sample - a2 * result;
+          sample = result;
+        });
+        output[i] = sample;
+      }
+      return output;
+    });
+  }
+}
+
+// Linear interpolation resampler. It keeps state between calls so a stream
+// split into chunks is resampled without discontinuities at chunk borders.
+// When downsampling, a low-pass filter first removes what the lower rate
+// can't represent, which would otherwise alias.
+export class Resampler {
+  private readonly step: number;
+  private readonly filter: LowPassFilter | null;
+  // Position of the next output sample relative to the start of the next
+  // input chunk, -1 means between the last sample of the previous chunk and
+  // the first sample of the next one.
+  private position = 0;
+  private lastSamples: Float32Array | null = null;
+
+  constructor(
+    public readonly sourceRate: number,
+    public readonly targetRate: number,
+  ) {
+    this.step = sourceRate / targetRate;
+    this.filter =
+      targetRate < sourceRate
+        ? new LowPassFilter(sourceRate, targetRate * LOW_PASS_CUTOFF)
+        : null;
+  }
+
+  process(channelData: Float32Array[]): Float32Array[] {
+    if (this.sourceRate === this.targetRate) {
+      return channelData;
+    }
+    if (this.filter) {
+      channelData = this.filter.process(channelData);
+    }
+    const channels = channelData.length;
+    const length = channelData[0].length;
+    if (!this.lastSamples || this.lastSamples.length !== channels) {
+      // First chunk, start interpolating from the first sample
+      this.lastSamples = new Float32Array(channels);
+      for (let c = 0; c < channels; c++) {
+        this.lastSamples[c] = channelData[c][0];
+      }
+    }
+
+    const outputLength = Math.max(
+      0,
+      Math.ceil((length - 1 - this.position) / this.step),
+    );
+    const output = Array.from(
+      { length: channels },
+      () => new Float32Array(outputLength),
+    );
+
+    for (let c = 0; c < channels; c++) {
+      const input = channelData[c];
+      const previous = this.lastSamples[c];
+      const out = output[c];
+      let position = this.position;
+      for (let i = 0; i < outputLength; i++) {
+        const index = Math.floor(position);
+        const fraction = position - index;
+        const a = index < 0 ? previous : input[index];
+        const b = input[index + 1];
+        out[i] = a + (b - a) * fraction;
+        position += this.step;
+      }
+    }
+
+    this.position += outputLength * this.step - length;
+    for (let c = 0; c < channels; c++) {
+      this.lastSamples[c] = channelData[c][length - 1];
+    }
+    return output;
+  }
+}
@@ -0,0 +1,432 @@
+// Minimal FLAC encoder producing one frame per audio chunk.
+//
+// Each channel is coded independently using the best fixed linear predictor
+// (order 0-4) and partitioned Rice coding of the residual. This is well short
+// of what libFLAC achieves but typically still halves the size of 16-bit
+// music, without any dependencies. Frames use the variable block size
+// strategy so every chunk can have a different sample count.
+
+const SUPPORTED_BIT_DEPTHS = [16, 24];
+// STREAMINFO can't announce smaller blocks, shorter chunks are padded
+const MIN_BLOCK_SIZE = 16;
+const MAX_BLOCK_SIZE = 65535;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+// Rice parameter 15 is reserved as escape code for 4-bit parameters
+const MAX_RICE_PARAMETER = 14;
+
+// Frame header codes for sample rates and bit depths, so each frame can be
+// decoded on its own without relying on STREAMINFO
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+const BIT_DEPTH_CODES: Record<number, number> = {
+  16: 0b100,
+  24: 0b110,
+};
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? ((crc8 << 1) ^ 0x07) & 0xff : (crc8 << 1) & 0xff;
+    crc16 =
+      crc16 & 0x8000 ? ((crc16 << 1) ^ 0x8005) & 0xffff : (crc16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = crc8;
+  CRC16_TABLE[i] = crc16;
+}
+
+const crc8 = (data: Uint8Array, end: number) => {
+  let crc = 0;
+  for (let i = 0; i < end; i++) {
+    crc = CRC8_TABLE[crc ^ data[i]];
+  }
+  return crc;
+};
+
+const crc16 = (data: Uint8Array, end: number) => {
+  let crc = 0;
+  for (let i = 0; i < end; i++) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ data[i]];
+  }
+  return crc;
+};
+
+class BitWriter {
+  private buffer: Uint8Array;
+  private bytePos = 0;
+  // Bits still free in the current byte
+  private bitsFree = 8;
+
+  constructor(initialSize: number) {
+    this.buffer = new Uint8Array(initialSize);
+  }
+
+  get byteLength() {
+    return this.bitsFree === 8 ? this.bytePos : this.bytePos + 1;
+  }
+
+  // Write the lowest `count` bits of an unsigned value, up to 32 bits.
+  writeBits(value: number, count: number) {
+    if (count > 24) {
+      this.writeBits(Math.floor(value / 0x10000), count - 16);
+      this.writeBits(value & 0xffff, 16);
+      return;
+    }
+    this._ensureCapacity(4);
+    while (count > 0) {
+      const take = Math.min(count, this.bitsFree);
+      const bits = (value >>> (count - take)) & ((1 << take) - 1);
+      this.buffer[this.bytePos] |= bits << (this.bitsFree - take);
+      this.bitsFree -= take;
+      count -= take;
+      if (this.bitsFree === 0) {
+        this.bytePos++;
+        this.bitsFree = 8;
+      }
+    }
+  }
+
+  writeSigned(value: number, count: number) {
+    this.writeBits(
+      count === 32 ? value >>> 0 : value & ((1 << count) - 1),
+      count,
+    );
+  }
+
+  // Unary code: `value` zero bits followed by a one bit
+  writeUnary(value: number) {
+    while (value >= 24) {
+      this.writeBits(0, 24);
+      value -= 24;
+    }
+    this.writeBits(1, value + 1);
+  }
+
+  alignToByte() {
+    if (this.bitsFree !== 8) {
+      this.bytePos++;
+      this.bitsFree = 8;
+    }
+  }
+
+  // Access the written bytes, only valid while byte aligned
+  get bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.byteLength);
+  }
+
+  private _ensureCapacity(extraBytes: number) {
+    if (this.bytePos + extraBytes < this.buffer.length) {
+      return;
+    }
+    const grown = new Uint8Array(
+      Math.max(this.buffer.length * 2, this.bytePos + extraBytes + 1),
+    );
+    grown.set(this.buffer);
+    this.buffer = grown;
+  }
+}
+
+// Compute fixed predictor residuals for the given order (FLAC spec 9.2.5)
+function fixedResidual(
+  samples: Int32Array,
+  order: number,
+  residual: Int32Array,
+) {
+  const s = samples;
+  for (let i = order; i < s.length; i++) {
+    switch (order) {
+      case 0:
+        residual[i] = s[i];
+        break;
+      case 1:
+        residual[i] = s[i] - s[i - 1];
+        break;
+      case 2:
+        residual[i] = s[i] - 2 * s[i - 1] + s[i - 2];
+        break;
+      case 3:
+        residual[i] = s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3];
+        break;
+      case 4:
+        residual[i] =
+          s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4];
+        break;
+    }
+  }
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+// Pick the Rice parameter for a partition and return its cost in bits
+function riceParameter(
+  residual: Int32Array,
+  start: number,
+  end: number,
+): { parameter: number; bits: number } {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += zigzag(residual[i]);
+  }
+  const count = end - start;
+  const mean = count > 0 ? sum / count : 0;
+  let parameter = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  parameter = Math.min(parameter, MAX_RICE_PARAMETER);
+  const bits = 4 + count * (parameter + 1) + Math.floor(sum / 2 ** parameter);
+  return { parameter, bits };
+}
+
+interface ResidualCoding {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+function planResidual(
+  residual: Int32Array,
+  blockSize: number,
+  predictorOrder: number,
+): ResidualCoding {
+  let best: ResidualCoding | null = null;
+  for (
+    let partitionOrder = 0;
+    partitionOrder <= MAX_PARTITION_ORDER;
+    partitionOrder++
+  ) {
+    const partitions = 1 << partitionOrder;
+    const partitionSize = blockSize / partitions;
+    if (!Number.isInteger(partitionSize) || partitionSize <= predictorOrder) {
+      break;
+    }
+    const parameters: number[] = [];
+    let bits = 6;
+    for (let p = 0; p < partitions; p++) {
+      const start = p === 0 ? predictorOrder : p * partitionSize;
+      const { parameter, bits: partitionBits } = riceParameter(
+        residual,
+        start,
+        (p + 1) * partitionSize,
+      );
+      parameters.push(parameter);
+      bits += partitionBits;
+    }
+    if (!best || bits < best.bits) {
+      best = { partitionOrder, parameters, bits };
+    }
+  }
+  return best!;
+}
+
+export class FlacEncoder {
+  private samplesEncoded = 0;
+
+  constructor(
+    public readonly sampleRate: number,
+    public readonly channels: number,
+    public readonly bitDepth: number,
+  ) {
+    if (!SUPPORTED_BIT_DEPTHS.includes(bitDepth)) {
+      throw new Error(`Unsupported FLAC bit depth ${bitDepth}`);
+    }
+    if (channels < 1 || channels > 8) {
+      throw new Error(`Unsupported FLAC channel count ${channels}`);
+    }
+  }
+
+  // "fLaC" marker followed by the STREAMINFO metadata block. This is what
+  // decoders expect as codec description and goes in SessionInfo.codec_header.
+  get streamInfo(): Uint8Array {
+    const writer = new BitWriter(42);
+    writer.writeBits(0x664c6143, 32); // "fLaC"
+    writer.writeBits(1, 1); // Last metadata block
+    writer.writeBits(0, 7); // STREAMINFO
+    writer.writeBits(34, 24); // Block length
+    writer.writeBits(MIN_BLOCK_SIZE, 16); // Minimum block size
+    writer.writeBits(MAX_BLOCK_SIZE, 16); // Maximum block size
+    writer.writeBits(0, 24); // Minimum frame size, unknown
+    writer.writeBits(0, 24); // Maximum frame size, unknown
+    writer.writeBits(this.sampleRate, 20);
+    writer.writeBits(this.channels - 1, 3);
+    writer.writeBits(this.bitDepth - 1, 5);
+    writer.writeBits(0, 36); // Total samples, unknown for a live stream
+    for (let i = 0; i < 4; i++) {
+      writer.writeBits(0, 32); // MD5 signature, not calculated
+    }
+    return writer.bytes;
+  }
+
+  // Encode one block of audio, one Int32Array of samples per channel, into a
+  // single FLAC frame. Blocks shorter than the minimum block size are padded
+  // by repeating their last sample, players only play the sample count of
+  // the audio chunk.
+  encodeFrame(channelData: Int32Array[]): Uint8Array {
+    if (channelData.length !== this.channels) {
+      throw new Error(
+        `Channel mismatch: expected ${this.channels}, got ${channelData.length}`,
+      );
+    }
+    if (channelData[0].length < 1 || channelData[0].length > MAX_BLOCK_SIZE) {
+      throw new Error(`Invalid FLAC block size ${channelData[0].length}`);
+    }
+    if (channelData[0].length < MIN_BLOCK_SIZE) {
+      channelData = channelData.map((samples) => {
+        const padded = new Int32Array(MIN_BLOCK_SIZE);
+        padded.set(samples);
+        padded.fill(samples[samples.length - 1], samples.length);
+        return padded;
+      });
+    }
+    const blockSize = channelData[0].length;
+
+    const writer = new BitWriter(
+      blockSize * this.channels * (this.bitDepth / 8) + 64,
+    );
+    this._writeFrameHeader(writer, blockSize);
+    for (const samples of channelData) {
+      this._writeSubframe(writer, samples);
+    }
+    writer.alignToByte();
+    const crc = crc16(writer.bytes, writer.byteLength);
+    writer.writeBits(crc, 16);
+
+    this.samplesEncoded += blockSize;
+    return writer.bytes.slice();
+  }
+
+  private _writeFrameHeader(writer: BitWriter, blockSize: number) {
+    writer.writeBits(0x3ffe, 14); // Sync code
+    writer.writeBits(0, 1); // Reserved
+    writer.writeBits(1, 1); // Variable block size
+    writer.writeBits(0b0111, 4); // Block size stored as 16 bits at the end
+    const sampleRate = this.sampleRate;
+    let sampleRateCode = SAMPLE_RATE_CODES[sampleRate];
+    let sampleRateBits = 0;
+    if (sampleRateCode === undefined) {
+      if (sampleRate % 1000 === 0 && sampleRate / 1000 < 256) {
+        sampleRateCode = 0b1100; // 8 bits in kHz at the end
+        sampleRateBits = 8;
+      } else if (sampleRate < 65536) {
+        sampleRateCode = 0b1101; // 16 bits in Hz at the end
+        sampleRateBits = 16;
+      } else if (sampleRate % 10 === 0 && sampleRate / 10 < 65536) {
+        sampleRateCode = 0b1110; // 16 bits in tens of Hz at the end
+        sampleRateBits = 16;
+      } else {
+        sampleRateCode = 0b0000; // From STREAMINFO
+      }
+    }
+    writer.writeBits(sampleRateCode, 4);
+    writer.writeBits(this.channels - 1, 4); // Independent channels
+    writer.writeBits(BIT_DEPTH_CODES[this.bitDepth], 3);
+    writer.writeBits(0, 1); // Reserved
+    this._writeCodedNumber(writer, this.samplesEncoded);
+    writer.writeBits(blockSize - 1, 16);
+    if (sampleRateCode === 0b1100) {
+      writer.writeBits(sampleRate / 1000, 8);
+    } else if (sampleRateCode === 0b1101) {
+      writer.writeBits(sampleRate, 16);
+    } else if (sampleRateCode === 0b1110) {
+      writer.writeBits(sampleRate / 10, 16);
+    }
+    writer.writeBits(crc8(writer.bytes, writer.byteLength), 8);
+  }
+
+  // UTF-8 like coding of the first sample number, up to 36 bits
+  private _writeCodedNumber(writer: BitWriter, value: number) {
+    if (value < 0x80) {
+      writer.writeBits(value, 8);
+      return;
+    }
+    let extraBytes = 1;
+    while (value >= 2 ** (5 * extraBytes + 6) && extraBytes < 6) {
+      extraBytes++;
+    }
+    const leadBits = 6 - extraBytes;
+    const lead = Math.floor(value / 2 ** (6 * extraBytes));
+    // Lead byte starts with one bit set per byte, followed by a zero bit
+    writer.writeBits((1 << (extraBytes + 1)) - 1, extraBytes + 1);
+    writer.writeBits(0, 1);
+    writer.writeBits(lead, leadBits);
+    for (let i = extraBytes - 1; i >= 0; i--) {
+      writer.writeBits(0b10, 2);
+      writer.writeBits(Math.floor(value / 2 ** (6 * i)) & 0x3f, 6);
+    }
+  }
+
+  private _writeSubframe(writer: BitWriter, samples: Int32Array) {
+    const blockSize = samples.length;
+    const bps = this.bitDepth;
+
+    if (samples.every((sample) => sample === samples[0])) {
+      writer.writeBits(0, 1);
+      writer.writeBits(0b000000, 6); // Constant
+      writer.writeBits(0, 1); // No wasted bits
+      writer.writeSigned(samples[0], bps);
+      return;
+    }
+
+    // Find the fixed predictor with the cheapest residual
+    const residual = new Int32Array(blockSize);
+    let bestOrder = -1;
+    let bestPlan: ResidualCoding | null = null;
+    let bestResidual: Int32Array | null = null;
+    const maxOrder = Math.min(MAX_FIXED_ORDER, blockSize - 1);
+    for (let order = 0; order <= maxOrder; order++) {
+      fixedResidual(samples, order, residual);
+      const plan = planResidual(residual, blockSize, order);
+      const bits = plan.bits + order * bps;
+      if (!bestPlan || bits < bestPlan.bits + bestOrder * bps) {
+        bestOrder = order;
+        bestPlan = plan;
+        bestResidual = residual.slice();
+      }
+    }
+
+    if (!bestPlan || bestPlan.bits + bestOrder * bps >= blockSize * bps) {
+      writer.writeBits(0, 1);
+      writer.writeBits(0b000001, 6); // Verbatim
+      writer.writeBits(0, 1);
+      for (let i = 0; i < blockSize; i++) {
+        writer.writeSigned(samples[i], bps);
+      }
+      return;
+    }
+
+    writer.writeBits(0, 1);
+    writer.writeBits(0b001000 | bestOrder, 6); // Fixed predictor
+    writer.writeBits(0, 1);
+    for (let i = 0; i < bestOrder; i++) {
+      writer.writeSigned(samples[i], bps);
+    }
+
+    writer.writeBits(0b00, 2); // Rice coding with 4-bit parameters
+    writer.writeBits(bestPlan.partitionOrder, 4);
+    const partitionSize = blockSize >> bestPlan.partitionOrder;
+    for (let p = 0; p < bestPlan.parameters.length; p++) {
+      const parameter = bestPlan.parameters[p];
+      writer.writeBits(parameter, 4);
+      const start = p === 0 ? bestOrder : p * partitionSize;
+      const end = (p + 1) * partitionSize;
+      for (let i = start; i < end; i++) {
+        const value = zigzag(bestResidual![i]);
+        writer.writeUnary(Math.floor(value / 2 ** parameter));
+        if (parameter > 0) {
+          writer.writeBits(value % 2 ** parameter, parameter);
+        }
+      }
+    }
+  }
+}
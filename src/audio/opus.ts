@@ -0,0 +1,36 @@
+// Opus always decodes at 48kHz, whatever the input sample rate was.
+export const OPUS_SAMPLE_RATE = 48000;
+
+export interface OpusHeadOptions {
+  channels: number;
+  // Sample rate of the original input, informational only
+  inputSampleRate?: number;
+  // Samples (at 48kHz) to discard from the start of the decoder output
+  preSkip?: number;
+  // Output gain in Q7.8 dB
+  outputGain?: number;
+}
+
+// Build an Opus identification header (RFC 7845, section 5.1) to be used as
+// SessionInfo.codec_header for Opus sessions.
+export function createOpusHead({
+  channels,
+  inputSampleRate = OPUS_SAMPLE_RATE,
+  preSkip = 312,
+  outputGain = 0,
+}: OpusHeadOptions): Uint8Array {
+  if (channels < 1 || channels > 2) {
+    // Mapping family 0 only covers mono and stereo
+    throw new Error(`Unsupported Opus channel count ${channels}`);
+  }
+  const head = new Uint8Array(19);
+  const dataView = new DataView(head.buffer);
+  head.set([0x4f, 0x70, 0x75, 0x73, 0x48, 0x65, 0x61, 0x64], 0); // "OpusHead"
+  dataView.setUint8(8, 1); // Version
+  dataView.setUint8(9, channels);
+  dataView.setUint16(10, preSkip, true);
+  dataView.setUint32(12, inputSampleRate, true);
+  dataView.setInt16(16, outputGain, true);
+  dataView.setUint8(18, 0); // Channel mapping family
+  return head;
+}
@@ -0,0 +1,125 @@
+// Raw PCM is sent interleaved and little-endian. The "pcm" codec carries
+// signed integers of the session bit depth, "pcm_float" carries IEEE floats.
+
+export const PCM_CODEC = "pcm";
+export const PCM_FLOAT_CODEC = "pcm_float";
+
+export const PCM_BIT_DEPTHS = [16, 24, 32];
+export const PCM_FLOAT_BIT_DEPTHS = [32];
+
+const clamp = (sample: number) => Math.max(-1, Math.min(1, sample));
+
+// Largest value of a signed integer sample of the given bit depth
+const maxSampleValue = (bitDepth: number) => 2 ** (bitDepth - 1);
+
+export function encodePCM(
+  channelData: Float32Array[],
+  bitDepth: number,
+  isFloat: boolean,
+): Uint8Array {
+  const channels = channelData.length;
+  const sampleCount = channelData[0].length;
+  const bytesPerSample = bitDepth / 8;
+  const data = new Uint8Array(sampleCount * channels * bytesPerSample);
+  const dataView = new DataView(data.buffer);
+  const scale = maxSampleValue(bitDepth);
+
+  for (let i = 0; i < sampleCount; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const offset = (i * channels + channel) * bytesPerSample;
+      const sample = clamp(channelData[channel][i]);
+      if (isFloat) {
+        dataView.setFloat32(offset, sample, true);
+        continue;
+      }
+      // Convert float [-1,1] to a signed integer of the bit depth, the same
+      // scale as decodePCM so samples survive a round trip, 1 is clipped to
+      // the largest positive value
+      const sampleInt = Math.min(Math.round(sample * scale), scale - 1);
+      switch (bitDepth) {
+        case 16:
+          dataView.setInt16(offset, sampleInt, true);
+          break;
+        case 24:
+          dataView.setUint8(offset, sampleInt & 0xff);
+          dataView.setInt16(offset + 1, sampleInt >> 8, true);
+          break;
+        case 32:
+          dataView.setInt32(offset, sampleInt, true);
+          break;
+      }
+    }
+  }
+  return data;
+}
+
+export function decodePCM(
+  data: DataView,
+  channels: number,
+  sampleCount: number,
+  bitDepth: number,
+  isFloat: boolean,
+): Float32Array[] {
+  const bytesPerSample = bitDepth / 8;
+  const scale = maxSampleValue(bitDepth);
+  const channelData: Float32Array[] = [];
+  for (let c = 0; c < channels; c++) {
+    channelData.push(new Float32Array(sampleCount));
+  }
+
+  for (let i = 0; i < sampleCount; i++) {
+    // Calculate the base offset for this sample frame
+    const baseOffset = i * channels * bytesPerSample;
+
+    for (let channel = 0; channel < channels; channel++) {
+      const offset = baseOffset + channel * bytesPerSample;
+      if (isFloat) {
+        channelData[channel][i] = data.getFloat32(offset, true);
+        continue;
+      }
+      let sample: number;
+      switch (bitDepth) {
+        case 16:
+          sample = data.getInt16(offset, true);
+          break;
+        case 24:
+          sample =
+            data.getUint8(offset) | (data.getInt16(offset + 1, true) << 8);
+          break;
+        case 32:
+          sample = data.getInt32(offset, true);
+          break;
+        default:
+          throw new Error(`Unsupported PCM bit depth ${bitDepth}`);
+      }
+      channelData[channel][i] = sample / scale;
+    }
+  }
+  return channelData;
+}
+
+// Split interleaved samples into one float array per channel. Integer input
+// is expected in the range of the given bit depth, so 24-bit samples are
+// passed as an Int32Array holding values in [-2^23, 2^23).
+export function deinterleavePCM(
+  pcmData: Int16Array | Int32Array | Float32Array,
+  channels: number,
+  bitDepth: number,
+): Float32Array[] {
+  const samplesPerChannel = Math.floor(pcmData.length / channels);
+  const scale =
+    pcmData instanceof Float32Array
+      ? 1
+      : maxSampleValue(pcmData instanceof Int16Array ? 16 : bitDepth);
+
+  const channelData = Array.from(
+    { length: channels },
+    () => new Float32Array(samplesPerChannel),
+  );
+  for (let i = 0; i < samplesPerChannel; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      channelData[ch][i] = pcmData[i * channels + ch] / scale;
+    }
+  }
+  return channelData;
+}
@@ -0,0 +1,214 @@
+// Parsing of WAVE files: RIFF, and RF64 for files over 4GB. Supports integer
+// PCM of 8 to 32 bits and IEEE float samples, with plain and extensible
+// format chunks.
+
+import { ChannelPosition, STANDARD_CHANNEL_LAYOUTS } from "./audio-frame.js";
+import { decodePCM } from "./pcm.js";
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Size fields set to this defer to the ds64 chunk in RF64 files
+const RF64_SIZE_PLACEHOLDER = 0xffffffff;
+
+// Speaker positions by bit of the extensible channel mask
+const CHANNEL_MASK_POSITIONS: Array<[number, ChannelPosition]> = [
+  [0x1, "FL"],
+  [0x2, "FR"],
+  [0x4, "FC"],
+  [0x8, "LFE"],
+  [0x10, "BL"],
+  [0x20, "BR"],
+  [0x200, "SL"],
+  [0x400, "SR"],
+];
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  // Bits per sample as stored in the file
+  bitDepth: number;
+  isFloat: boolean;
+  // Byte size of one frame, a sample of every channel
+  blockAlign: number;
+  // Position of each channel, if the file specifies a layout we support
+  layout?: ChannelPosition[];
+}
+
+export interface WavHeader {
+  format: WavFormat;
+  // Byte offset of the sample data in the file
+  dataOffset: number;
+  // Byte size of the sample data, null if unknown (e.g. a file still being
+  // written), in which case the data runs to the end of the file
+  dataSize: number | null;
+}
+
+// Reads bytes of the file at a byte offset. Returns fewer bytes than asked
+// for at the end of the file.
+export type ByteReader = (
+  offset: number,
+  length: number,
+) => Promise<Uint8Array>;
+
+const readId = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const view = (bytes: Uint8Array) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// 64-bit sizes of RF64 files, exact up to 2^53 bytes
+const getUint64 = (data: DataView, offset: number) =>
+  data.getUint32(offset, true) + data.getUint32(offset + 4, true) * 2 ** 32;
+
+// Walk the chunks of a WAVE file up to its sample data.
+export async function readWavHeader(read: ByteReader): Promise<WavHeader> {
+  const riff = await read(0, 12);
+  if (riff.length < 12) {
+    throw new Error("File too short for a WAVE file");
+  }
+  const container = readId(riff, 0);
+  if (
+    (container !== "RIFF" && container !== "RF64") ||
+    readId(riff, 8) !== "WAVE"
+  ) {
+    throw new Error("Not a WAVE file");
+  }
+
+  let format: WavFormat | null = null;
+  let rf64DataSize: number | null = null;
+  let offset = 12;
+  for (;;) {
+    const chunkHeader = await read(offset, 8);
+    if (chunkHeader.length < 8) {
+      throw new Error("WAVE file has no data chunk");
+    }
+    const id = readId(chunkHeader, 0);
+    const size = view(chunkHeader).getUint32(4, true);
+    const bodyOffset = offset + 8;
+
+    if (id === "ds64") {
+      const body = view(await read(bodyOffset, Math.min(size, 28)));
+      rf64DataSize = getUint64(body, 8);
+    } else if (id === "fmt ") {
+      format = parseFormat(view(await read(bodyOffset, size)));
+    } else if (id === "data") {
+      if (!format) {
+        throw new Error("WAVE file has no format chunk before its data");
+      }
+      let dataSize: number | null = size;
+      if (container === "RF64" && size === RF64_SIZE_PLACEHOLDER) {
+        dataSize = rf64DataSize;
+      } else if (size === 0 || size === RF64_SIZE_PLACEHOLDER) {
+        // Written by a streaming encoder that never filled in the size
+        dataSize = null;
+      }
+      return { format, dataOffset: bodyOffset, dataSize };
+    }
+    // Chunks are padded to an even size
+    offset = bodyOffset + size + (size % 2);
+  }
+}
+
+function parseFormat(data: DataView): WavFormat {
+  if (data.byteLength < 16) {
+    throw new Error("WAVE format chunk too short");
+  }
+  let formatTag = data.getUint16(0, true);
+  const channels = data.getUint16(2, true);
+  const sampleRate = data.getUint32(4, true);
+  const blockAlign = data.getUint16(12, true);
+  const bitDepth = data.getUint16(14, true);
+  let layout: ChannelPosition[] | undefined;
+
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+    if (data.byteLength < 40) {
+      throw new Error("WAVE extensible format chunk too short");
+    }
+    layout = layoutFromMask(data.getUint32(20, true), channels);
+    // The sub format GUID starts with the format tag
+    formatTag = data.getUint16(24, true);
+  }
+
+  const isFloat = formatTag === WAVE_FORMAT_IEEE_FLOAT;
+  if (formatTag !== WAVE_FORMAT_PCM && !isFloat) {
+    throw new Error(`Unsupported WAVE format 0x${formatTag.toString(16)}`);
+  }
+  const supported = isFloat ? [32, 64] : [8, 16, 24, 32];
+  if (!supported.includes(bitDepth)) {
+    throw new Error(
+      `Unsupported WAVE sample size of ${bitDepth} bits${
+        isFloat ? " for float" : ""
+      }`,
+    );
+  }
+  if (channels === 0 || blockAlign !== (channels * bitDepth) / 8) {
+    throw new Error("Invalid WAVE block alignment");
+  }
+  return { sampleRate, channels, bitDepth, isFloat, blockAlign, layout };
+}
+
+// Positions of the channels, in file order. Undefined for masks we can't
+// map to a standard layout, the channels are then taken in standard order.
+function layoutFromMask(
+  mask: number,
+  channels: number,
+): ChannelPosition[] | undefined {
+  let layout = CHANNEL_MASK_POSITIONS.filter(([bit]) => mask & bit).map(
+    ([, position]) => position,
+  );
+  if (channels < 8 && !layout.includes("BL") && !layout.includes("BR")) {
+    // Surround layouts are often declared with side speakers, play them on
+    // the back channels of the standard layout
+    layout = layout.map((position) =>
+      position === "SL" ? "BL" : position === "SR" ? "BR" : position,
+    );
+  }
+  const standard = STANDARD_CHANNEL_LAYOUTS[channels];
+  if (
+    layout.length !== channels ||
+    !standard ||
+    !standard.every((position) => layout.includes(position))
+  ) {
+    return undefined;
+  }
+  return layout;
+}
+
+// Decode whole frames of sample data to planar float audio in standard
+// channel order.
+export function decodeWavSamples(
+  bytes: Uint8Array,
+  format: WavFormat,
+): Float32Array[] {
+  const { channels, bitDepth, isFloat, blockAlign, layout } = format;
+  const frames = Math.floor(bytes.byteLength / blockAlign);
+  const data = view(bytes);
+  let channelData: Float32Array[];
+
+  if (bitDepth === 8 || bitDepth === 64) {
+    channelData = Array.from(
+      { length: channels },
+      () => new Float32Array(frames),
+    );
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < channels; c++) {
+        const offset = i * blockAlign + (c * bitDepth) / 8;
+        channelData[c][i] =
+          bitDepth === 8
+            ? // 8-bit samples are unsigned
+              (data.getUint8(offset) - 128) / 128
+            : data.getFloat64(offset, true);
+      }
+    }
+  } else {
+    channelData = decodePCM(data, channels, frames, bitDepth, isFloat);
+  }
+
+  return layout
+    ? STANDARD_CHANNEL_LAYOUTS[channels].map(
+        (position) => channelData[layout.indexOf(position)],
+      )
+    : channelData;
+}
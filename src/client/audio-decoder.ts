@@ -0,0 +1,172 @@
+import type { SessionInfo } from "../messages.js";
+import type { Logger } from "../logging.js";
+import { decodeCodecHeader } from "../audio/codec-header.js";
+import {
+  PCM_BIT_DEPTHS,
+  PCM_CODEC,
+  PCM_FLOAT_BIT_DEPTHS,
+  PCM_FLOAT_CODEC,
+  decodePCM,
+} from "../audio/pcm.js";
+
+export interface DecodedAudioChunk {
+  // Server timestamp in microseconds at which the chunk should start playing
+  timestamp: number;
+  sampleRate: number;
+  // One array per channel with samples in range [-1, 1]
+  channelData: Float32Array[];
+}
+
+export interface AudioChunkDecoder {
+  decode(timestamp: number, sampleCount: number, data: DataView): void;
+  close(): void;
+}
+
+type DecoderOutputCallback = (chunk: DecodedAudioChunk) => void;
+
+const webCodecsAvailable = () => typeof AudioDecoder !== "undefined";
+
+// Codecs this player can decode, advertised in player/hello
+export const getSupportedCodecs = (): string[] =>
+  webCodecsAvailable()
+    ? [PCM_CODEC, PCM_FLOAT_CODEC, "opus", "flac"]
+    : [PCM_CODEC, PCM_FLOAT_CODEC];
+
+export const getSupportedBitDepths = (): number[] =>
+  Array.from(new Set([...PCM_BIT_DEPTHS, ...PCM_FLOAT_BIT_DEPTHS]));
+
+class PCMDecoder implements AudioChunkDecoder {
+  constructor(
+    private readonly sessionInfo: SessionInfo,
+    private readonly onOutput: DecoderOutputCallback,
+    private readonly logger: Logger,
+  ) {}
+
+  decode(timestamp: number, sampleCount: number, data: DataView) {
+    const {
+      codec,
+      sample_rate: sampleRate,
+      channels,
+      bit_depth: bitDepth,
+    } = this.sessionInfo;
+    const bytesPerSample = bitDepth / 8;
+
+    // Verify that the number of samples matches the data size
+    const expectedDataSize = sampleCount * channels * bytesPerSample;
+    if (expectedDataSize !== data.byteLength) {
+      this.logger.error(
+        `Data size mismatch: expected ${expectedDataSize} bytes, got ${data.byteLength} bytes`,
+      );
+      return;
+    }
+
+    this.onOutput({
+      timestamp,
+      sampleRate,
+      channelData: decodePCM(
+        data,
+        channels,
+        sampleCount,
+        bitDepth,
+        codec === PCM_FLOAT_CODEC,
+      ),
+    });
+  }
+
+  close() {}
+}
+
+// Decodes compressed codecs using the browser's WebCodecs AudioDecoder.
+// Output is asynchronous but in the same order as the input.
+class WebCodecsDecoder implements AudioChunkDecoder {
+  private decoder: AudioDecoder;
+  // Sample counts of the chunks being decoded by timestamp. Frames can hold
+  // more samples than the chunk, like padded FLAC frames.
+  private sampleCounts = new Map<number, number>();
+
+  constructor(
+    config: AudioDecoderConfig,
+    onOutput: DecoderOutputCallback,
+    logger: Logger,
+  ) {
+    this.decoder = new AudioDecoder({
+      output: (audioData) => {
+        const sampleCount = Math.min(
+          audioData.numberOfFrames,
+          this.sampleCounts.get(audioData.timestamp) ?? Infinity,
+        );
+        this.sampleCounts.delete(audioData.timestamp);
+        const channelData: Float32Array[] = [];
+        for (let c = 0; c < audioData.numberOfChannels; c++) {
+          const plane = new Float32Array(audioData.numberOfFrames);
+          audioData.copyTo(plane, { planeIndex: c, format: "f32-planar" });
+          channelData.push(plane.subarray(0, sampleCount));
+        }
+        onOutput({
+          timestamp: audioData.timestamp,
+          sampleRate: audioData.sampleRate,
+          channelData,
+        });
+        audioData.close();
+      },
+      error: (error) => {
+        logger.error("Audio decoder error:", error);
+      },
+    });
+    this.decoder.configure(config);
+  }
+
+  decode(timestamp: number, sampleCount: number, data: DataView) {
+    this.sampleCounts.set(timestamp, sampleCount);
+    this.decoder.decode(
+      new EncodedAudioChunk({
+        type: "key",
+        timestamp,
+        data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+      }),
+    );
+  }
+
+  close() {
+    if (this.decoder.state !== "closed") {
+      this.decoder.close();
+    }
+  }
+}
+
+export function createAudioChunkDecoder(
+  sessionInfo: SessionInfo,
+  onOutput: DecoderOutputCallback,
+  logger: Logger,
+): AudioChunkDecoder {
+  switch (sessionInfo.codec) {
+    case PCM_CODEC:
+    case PCM_FLOAT_CODEC:
+      return new PCMDecoder(sessionInfo, onOutput, logger);
+
+    case "opus":
+    case "flac":
+      if (!webCodecsAvailable()) {
+        throw new Error(
+          `Decoding ${sessionInfo.codec} requires WebCodecs support`,
+        );
+      }
+      return new WebCodecsDecoder(
+        {
+          // For FLAC the codec header is "fLaC" + STREAMINFO, which is the
+          // description WebCodecs expects
+          codec: sessionInfo.codec,
+          sampleRate: sessionInfo.sample_rate,
+          numberOfChannels: sessionInfo.channels,
+          description: sessionInfo.codec_header
+            ? decodeCodecHeader(sessionInfo.codec_header)
+            : undefined,
+        },
+        onOutput,
+        logger,
+      );
+
+    default:
+      throw new Error(`Unsupported codec ${sessionInfo.codec}`);
+  }
+}
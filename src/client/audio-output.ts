@@ -0,0 +1,44 @@
+import type { DecodedAudioChunk } from "./audio-decoder.js";
+
+export interface PlaybackStats {
+  // Audio queued ahead of the current playback position, in seconds
+  bufferedSeconds: number;
+  // Number of times playback ran out of audio while playing
+  underruns: number;
+  // Number of frames dropped because they arrived after their play time
+  droppedFrames: number;
+  // How far playback is behind (positive) or ahead of (negative) the server
+  // timeline, in seconds
+  syncError: number;
+  playing: boolean;
+}
+
+export interface AudioOutputEvents {
+  // Fired periodically while audio is being played
+  stats: PlaybackStats;
+  // Fired when output was suspended or resumed, e.g. by the browser
+  "suspended-change": boolean;
+}
+
+// Where the client plays its audio. The output clock is also the clock the
+// client synchronizes with the server, so audio scheduled for a time of this
+// clock is expected to be heard at that time.
+export interface AudioOutput {
+  // Current time of the output clock in seconds
+  readonly currentTime: number;
+  // Whether output is on hold, audio still queues up but is not played
+  readonly suspended: boolean;
+
+  // Queue a chunk to start playing at the given output time in seconds.
+  enqueue(startTime: number, chunk: DecodedAudioChunk): void;
+  // Discard all queued audio, or only audio from the given output time.
+  flush(fromTime?: number): void;
+  // Set the gain applied to the audio, 0 to 1.
+  setGain(gain: number): void;
+  close(): void;
+
+  on<K extends keyof AudioOutputEvents>(
+    event: K,
+    listener: (data: AudioOutputEvents[K]) => unknown,
+  ): unknown;
+}
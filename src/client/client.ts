@@ -10,9 +10,29 @@ import {
   GroupListMessage,
   ClientMessages,
   MediaCommand,
+  PlayerVolumeMessage,
+  PlayerState,
+  QueueUpdateMessage,
+  CloseCode,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  isMessageSupported,
 } from "../messages.js";
+import { ProtocolError, parseServerMessage } from "../message-validation.js";
 import type { Logger } from "../logging.js";
+import type { WebSocketConstructor, WebSocketLike } from "../websocket.js";
 import { EventEmitter } from "../util/event-emitter.js";
+import { Clock, TimerHandle, systemClock } from "../util/clock.js";
+import {
+  AudioChunkDecoder,
+  DecodedAudioChunk,
+  createAudioChunkDecoder,
+  getSupportedBitDepths,
+  getSupportedCodecs,
+} from "./audio-decoder.js";
+import type { AudioOutput, PlaybackStats } from "./audio-output.js";
+import { WebAudioOutput } from "./web-audio-output.js";
+import { TimeSync } from "./time-sync.js";
 
 type Events = {
   open: void;
@@ -22,33 +42,122 @@ type Events = {
   "metadata-update": Metadata | null;
   "art-update": { data: Blob } | null;
   "groups-update": { groups: GroupListMessage["payload"]["groups"] };
+  "queue-update": QueueUpdateMessage["payload"] | null;
+  "playback-stats": PlaybackStats;
+  "volume-update": { volume: number; muted: boolean };
+  "state-update": PlayerState;
+  "connection-state": ConnectionState;
 };
 
+export type ConnectionState =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "reconnecting";
+
+export interface ReconnectOptions {
+  // Milliseconds to wait before the first attempt, default 500
+  initialDelay?: number;
+  // Maximum milliseconds between attempts, default 30000
+  maxDelay?: number;
+  // Factor the delay grows by with every failed attempt, default 2
+  multiplier?: number;
+  // Fraction the delay is randomly varied by, so players that lost the
+  // connection at the same time don't reconnect at once, default 0.3
+  jitter?: number;
+  // Give up after this many failed attempts, default never
+  maxAttempts?: number;
+}
+
+export interface SyncStatus {
+  // Server clock minus output clock in microseconds
+  offset: number;
+  // How much faster the server clock runs than ours, in parts per million
+  driftPpm: number;
+  // Estimated accuracy of the offset in microseconds
+  accuracy: number;
+  // Best recent round trip time to the server in microseconds
+  rtt: number;
+  // How far playback is behind (positive) or ahead of (negative) the server
+  // timeline in microseconds, null when not playing
+  syncError: number | null;
+}
+
+export type { WebSocketConstructor, WebSocketLike } from "../websocket.js";
+
 export interface PlayerOptions {
   playerId: string;
   url: string;
   logger?: Logger;
+  // Reconnect when the connection is lost unexpectedly, pass false to disable
+  reconnect?: ReconnectOptions | false;
+  // Where to play audio, defaults to Web Audio
+  output?: AudioOutput;
+  // WebSocket implementation, defaults to the global WebSocket
+  WebSocket?: WebSocketConstructor;
+  // Runs the timers of the client, defaults to the system clock. Audio is
+  // timed by the clock of the output.
+  clock?: Clock;
 }
 
-// Use standard AudioContext or fallback to webkitAudioContext
-const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  initialDelay: 500,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.3,
+  maxAttempts: Infinity,
+};
+
+// WebSocket readyState of an open connection
+const WEBSOCKET_OPEN = 1;
 
 const MIN_TIME_DIFF_SAMPLES = 20; // Minimum number of samples we want to have
 
-// Maximum number of samples to keep for time diff calculation
-const MAX_TIME_DIFF_SAMPLES = 50;
+// Milliseconds between time sync exchanges: quickly after connecting or a
+// clock jump, then regularly until the estimate is stable
+const TIME_SYNC_BURST_INTERVAL = 10;
+const TIME_SYNC_INTERVAL = 1000;
+const TIME_SYNC_STABLE_INTERVAL = 5000;
+
+// Bytes of encoded audio we are willing to hold ahead of playback, well over
+// a minute of CD quality PCM
+const BUFFER_CAPACITY = 16 * 1024 * 1024;
+
+// Milliseconds between reports of our sync quality to the server
+const SYNC_REPORT_INTERVAL = 5000;
+
+// Milliseconds to wait before reconnecting after the server dropped us for
+// not keeping up, so we don't come right back to the same congestion
+const TOO_SLOW_RECONNECT_DELAY = 10000;
 
 export class Client extends EventEmitter<Events> {
   private options: PlayerOptions;
   private logger: Logger = console;
-  private ws: WebSocket | null = null;
+  private clock: Clock;
+  private ws: WebSocketLike | null = null;
   private serverInfo: ServerInfo | null = null;
+  private _protocolVersion: number | null = null;
   private sessionInfo: SessionInfo | null = null;
-  private audioContext = new AudioContextClass();
+  private output: AudioOutput;
   private metadata: Metadata | null = null;
-  private serverTimeDiff: number = 0; // Time difference between server and client
-  private serverTimeDiffSamples: number[] = []; // Store last 50 samples for median
+  private _queue: QueueUpdateMessage["payload"] | null = null;
+  private audioDecoder: AudioChunkDecoder | null = null;
+  private timeSync = new TimeSync(); // Relation between server and output clock
+  private lastPlaybackStats: PlaybackStats | null = null;
+  private _state: PlayerState["state"] = "idle";
+  private _volume = 100;
+  private _muted = false;
+  private timeSyncTimeout: TimerHandle | null = null;
+  private syncReportInterval: TimerHandle | null = null;
   private expectClose = true;
+  private _connectionState: ConnectionState = "disconnected";
+  private reconnectAttempt = 0;
+  private reconnectTimeout: TimerHandle | null = null;
+  // Session we played audio of, to keep playing it when the session resumes
+  private lastSessionId: string | null = null;
+  // Server timestamp the session audio was flushed from, we are paused until
+  // audio from after it arrives
+  private flushedAt: number | null = null;
 
   constructor(options: PlayerOptions) {
     super();
@@ -56,6 +165,14 @@ export class Client extends EventEmitter<Events> {
     if (options.logger) {
       this.logger = options.logger;
     }
+    this.clock = options.clock ?? systemClock;
+    this.output = options.output ?? new WebAudioOutput(this.logger);
+    this.output.on("stats", (stats) => {
+      this.lastPlaybackStats = stats;
+      this.fire("playback-stats", stats);
+      this._updateState();
+    });
+    this.output.on("suspended-change", () => this._updateState());
   }
 
   // Establish a WebSocket connection
@@ -75,56 +192,149 @@ export class Client extends EventEmitter<Events> {
       });
     });
     this.expectClose = !isReconnect;
-    this.ws = new WebSocket(this.options.url);
+    this._cancelReconnect();
+    this.reconnectAttempt = 0;
+    this._openSocket(isReconnect);
+    return connected;
+  }
 
-    // Expect binary data as ArrayBuffer
-    this.ws.binaryType = "arraybuffer";
+  public get connectionState(): ConnectionState {
+    return this._connectionState;
+  }
 
-    let timeSyncInterval: number | null = null;
+  // Open the WebSocket. When resuming, we keep our time sync samples.
+  private _openSocket(resume: boolean) {
+    this._setConnectionState(resume ? "reconnecting" : "connecting");
+    const WebSocketClass = this.options.WebSocket ?? WebSocket;
+    const ws = new WebSocketClass(this.options.url);
+    this.ws = ws;
 
-    this.ws.addEventListener("open", () => {
+    // Expect binary data as ArrayBuffer
+    ws.binaryType = "arraybuffer";
+
+    ws.addEventListener("open", () => {
       this.logger.log("WebSocket connected");
-      this.serverTimeDiffSamples = [];
+      if (!resume) {
+        this.timeSync.reset();
+      }
       this.expectClose = false;
+      this.reconnectAttempt = 0;
+      this._setConnectionState("connected");
       this._sendHello();
+      this._sendPlayerState();
       this._sendPlayerTime();
-      timeSyncInterval = window.setInterval(() => {
-        this._sendPlayerTime();
-      }, 1000);
+      this.syncReportInterval = this.clock.setInterval(() => {
+        this._sendSyncReport();
+      }, SYNC_REPORT_INTERVAL);
       this.fire("open");
     });
 
-    this.ws.addEventListener("message", (event) => {
+    ws.addEventListener("message", (event) => {
       // Check if the message is text (JSON) or binary (ArrayBuffer)
       if (typeof event.data === "string") {
+        const receivedAt = this.output.currentTime * 1000000;
+        let message: ServerMessages | null;
         try {
-          const message = JSON.parse(event.data);
-          this._handleTextMessage(
-            message,
-            this.audioContext!.currentTime * 1000000,
-          );
+          message = parseServerMessage(event.data);
         } catch (err) {
-          this.logger.error("Error parsing message", err);
+          this._handleProtocolError(err);
+          return;
+        }
+        if (!message) {
+          // From a newer version of the protocol
+          this.logger.log("Ignoring message of unknown type", event.data);
+          return;
+        }
+        try {
+          this._handleTextMessage(message, receivedAt);
+        } catch (err) {
+          this.logger.error("Error handling message", err);
         }
       } else {
         this._handleBinaryMessage(event.data);
       }
     });
 
-    this.ws.addEventListener("error", (error) => {
+    ws.addEventListener("error", (error) => {
       this.logger.error("WebSocket error:", error);
     });
 
-    this.ws.addEventListener("close", () => {
-      clearTimeout(timeSyncInterval!);
+    ws.addEventListener("close", ({ code, reason }) => {
+      // A connection we replaced closing late, the timers and session belong
+      // to the new one
+      if (this.ws !== ws && this.ws !== null) {
+        return;
+      }
+      if (code === CloseCode.Replaced || code === CloseCode.DuplicatePlayer) {
+        // Another connection of this player is in use, reconnecting would
+        // take turns with it
+        this.logger.error(`Server closed the connection: ${reason}`);
+        this.expectClose = true;
+      }
+      this._stopTimeSync();
 
+      this._closeAudioDecoder();
       this.sessionInfo = null;
       this.metadata = null;
+      this._protocolVersion = null;
+      this._updateState();
       this.fire("close", {
         expected: this.expectClose,
       });
+      if (!this.expectClose && this.options.reconnect !== false) {
+        this._scheduleReconnect(
+          code === CloseCode.TooSlow ? TOO_SLOW_RECONNECT_DELAY : 0,
+        );
+      } else {
+        this._setConnectionState("disconnected");
+      }
     });
-    return connected;
+  }
+
+  // Reconnect with exponential backoff, waiting at least minDelay ms.
+  private _scheduleReconnect(minDelay: number = 0) {
+    const { initialDelay, maxDelay, multiplier, jitter, maxAttempts } = {
+      ...DEFAULT_RECONNECT_OPTIONS,
+      ...this.options.reconnect,
+    };
+    if (this.reconnectAttempt >= maxAttempts) {
+      this.logger.error(
+        `Giving up reconnecting after ${this.reconnectAttempt} attempts`,
+      );
+      this._setConnectionState("disconnected");
+      return;
+    }
+    const delay = Math.max(
+      minDelay,
+      Math.min(maxDelay, initialDelay * multiplier ** this.reconnectAttempt) *
+        (1 + jitter * (Math.random() * 2 - 1)),
+    );
+    this.reconnectAttempt++;
+    this.logger.log(
+      `Reconnecting in ${Math.round(delay)}ms (attempt ${
+        this.reconnectAttempt
+      })`,
+    );
+    this._setConnectionState("reconnecting");
+    this.reconnectTimeout = this.clock.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this._openSocket(true);
+    }, delay);
+  }
+
+  private _cancelReconnect() {
+    if (this.reconnectTimeout !== null) {
+      this.clock.clearTimer(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  private _setConnectionState(state: ConnectionState) {
+    if (state === this._connectionState) {
+      return;
+    }
+    this._connectionState = state;
+    this.fire("connection-state", state);
   }
 
   // Send a hello message to the server with player details.
@@ -135,58 +345,210 @@ export class Client extends EventEmitter<Events> {
         player_id: this.options.playerId,
         name: this.options.playerId,
         role: "player",
-        support_codecs: ["pcm"],
-        support_channels: [2],
-        support_sample_rates: [44100],
-        support_bit_depth: [16],
+        support_codecs: getSupportedCodecs(),
+        support_channels: [1, 2],
+        support_sample_rates: [44100, 48000, 88200, 96000],
+        support_bit_depth: getSupportedBitDepths(),
         support_streams: ["music"],
         support_picture_formats: ["jpeg", "png"],
         media_display_size: null,
-        buffer_capacity: 10000000000,
+        buffer_capacity: BUFFER_CAPACITY,
+        version: PROTOCOL_VERSION,
+        features: ["volume"],
       },
     });
   }
 
+  private _sendPlayerState() {
+    this.send({
+      type: "player/state",
+      payload: this.playerState,
+    });
+  }
+
+  public get playerState(): PlayerState {
+    return {
+      state: this._state,
+      volume: this._volume,
+      muted: this._muted,
+    };
+  }
+
+  // Derive our state from the session and playback, reporting changes
+  private _updateState() {
+    let state: PlayerState["state"];
+    if (!this.sessionInfo) {
+      state = "idle";
+    } else if (this.output.suspended || this.flushedAt !== null) {
+      state = "paused";
+    } else if (this.lastPlaybackStats?.playing) {
+      state = "playing";
+    } else {
+      state = "buffering";
+    }
+    if (state === this._state) {
+      return;
+    }
+    this.logger.log(`Player state changed from ${this._state} to ${state}`);
+    this._state = state;
+    this._reportPlayerState();
+    this.fire("state-update", this.playerState);
+  }
+
   private _sendPlayerTime() {
     this.send({
       type: "player/time",
       payload: {
-        player_transmitted: this.audioContext!.currentTime * 1000000,
+        player_transmitted: this.output.currentTime * 1000000,
+      },
+    });
+    // Try again if the reply gets lost, a reply reschedules this
+    this._scheduleTimeSync(TIME_SYNC_INTERVAL);
+  }
+
+  private _scheduleTimeSync(delay: number) {
+    if (this.timeSyncTimeout !== null) {
+      this.clock.clearTimer(this.timeSyncTimeout);
+    }
+    this.timeSyncTimeout = this.clock.setTimeout(() => {
+      this.timeSyncTimeout = null;
+      if (this.ws?.readyState === WEBSOCKET_OPEN) {
+        this._sendPlayerTime();
+      }
+    }, delay);
+  }
+
+  private _stopTimeSync() {
+    if (this.timeSyncTimeout !== null) {
+      this.clock.clearTimer(this.timeSyncTimeout);
+      this.timeSyncTimeout = null;
+    }
+    if (this.syncReportInterval !== null) {
+      this.clock.clearTimer(this.syncReportInterval);
+      this.syncReportInterval = null;
+    }
+  }
+
+  // Let the server know how well we are in sync
+  private _sendSyncReport() {
+    if (
+      this.timeSync.sampleCount === 0 ||
+      !this.serverInfo?.features?.includes("sync-report")
+    ) {
+      return;
+    }
+    const { accuracy, rtt, driftPpm, syncError } = this.syncStatus;
+    this.send({
+      type: "player/sync",
+      payload: {
+        accuracy: Math.round(accuracy),
+        rtt: Math.round(rtt),
+        drift_ppm: driftPpm,
+        sync_error: syncError === null ? null : Math.round(syncError),
       },
     });
   }
 
+  // Protocol version agreed on with the server, null until its hello
+  public get protocolVersion(): number | null {
+    return this._protocolVersion;
+  }
+
   public send(message: ClientMessages) {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.ws || this.ws.readyState !== WEBSOCKET_OPEN) {
       throw new Error("WebSocket is not connected");
     }
+    if (
+      this._protocolVersion !== null &&
+      !isMessageSupported(message.type, this._protocolVersion)
+    ) {
+      // Older servers would not understand it
+      this.logger.log(
+        `Not sending ${message.type} using protocol version ${this._protocolVersion}`,
+      );
+      return;
+    }
     this.ws.send(JSON.stringify(message));
     this.logger.log("Sent message:", message);
   }
 
+  // Let the server know it sent something we don't understand. If it did not
+  // even manage a valid hello there is no point in staying connected.
+  private _handleProtocolError(err: unknown) {
+    if (!(err instanceof ProtocolError)) {
+      this.logger.error("Error parsing message", err);
+      return;
+    }
+    this.logger.error("Invalid message from server:", err.message);
+    if (this.ws?.readyState !== WEBSOCKET_OPEN) {
+      return;
+    }
+    this.send({
+      type: "error",
+      payload: { code: err.code, message: err.message },
+    });
+    if (!this.serverInfo) {
+      this.ws.close(CloseCode.PlayerProtocolError, "Invalid server hello");
+    }
+  }
+
   // Handle text (JSON) messages from the server.
   private _handleTextMessage(message: ServerMessages, receivedAt: number) {
     this.logger.log("Received text message:", message);
     switch (message.type) {
-      case "source/hello":
-        this.logger.log("Server connected:", this.serverInfo);
+      case "source/hello": {
+        const version = message.payload.version ?? 1;
+        const protocolVersion = Math.min(version, PROTOCOL_VERSION);
+        if (protocolVersion < MIN_PROTOCOL_VERSION) {
+          this.logger.error(
+            `Server protocol version ${version} is not supported, need ${MIN_PROTOCOL_VERSION} to ${PROTOCOL_VERSION}`,
+          );
+          // Reconnecting won't help until the server is updated
+          this.expectClose = true;
+          this.ws!.close(
+            CloseCode.PlayerProtocolError,
+            "Unsupported protocol version",
+          );
+          break;
+        }
+        this._protocolVersion = protocolVersion;
         this.serverInfo = message.payload;
+        this.logger.log(
+          `Server connected, using protocol version ${protocolVersion}:`,
+          this.serverInfo,
+        );
         this.fire("server-update", this.serverInfo);
 
         break;
+      }
       case "session/start":
         this.logger.log("Session started", message.payload);
         this.sessionInfo = message.payload;
+        if (this.sessionInfo.session_id !== this.lastSessionId) {
+          // Audio of a session we no longer take part in
+          this.output.flush();
+        }
+        this.lastSessionId = this.sessionInfo.session_id;
+        this._createAudioDecoder();
+        this.lastPlaybackStats = null;
+        this.flushedAt = null;
         this.fire("session-update", this.sessionInfo);
+        this._updateState();
         break;
 
       case "session/end":
         this.logger.log("Session ended");
+        this._closeAudioDecoder();
+        this.output.flush();
+        this.lastSessionId = null;
         this.metadata = null;
         this.sessionInfo = null;
         this.fire("metadata-update", null);
         this.fire("art-update", null);
+        this.lastPlaybackStats = null;
+        this.flushedAt = null;
         this.fire("session-update", null);
+        this._updateState();
         break;
 
       case "metadata/update":
@@ -201,6 +563,23 @@ export class Client extends EventEmitter<Events> {
         this._handleServerTime(message.payload, receivedAt);
         break;
 
+      case "player/volume":
+        this._handleVolume(message.payload);
+        break;
+
+      case "stream/flush":
+        this._handleFlush(message.payload.timestamp);
+        break;
+
+      case "queue/update":
+        this._queue = message.payload;
+        this.fire("queue-update", this._queue);
+        break;
+
+      case "error":
+        this.logger.error("Server reported a protocol error:", message.payload);
+        break;
+
       case "group/list":
         this.logger.log("Received group list", message.payload);
         this.fire("groups-update", {
@@ -238,12 +617,7 @@ export class Client extends EventEmitter<Events> {
 
   // Handle an audio chunk binary message.
   private _handleAudioChunk(data: ArrayBuffer) {
-    // Check if AudioContext is available
-    if (!this.audioContext) {
-      this.logger.error("Cannot play audio: AudioContext not initialized");
-      return;
-    }
-    if (!this.sessionInfo) {
+    if (!this.sessionInfo || !this.audioDecoder) {
       this.logger.error("Cannot play audio: session information not available");
       return;
     }
@@ -260,14 +634,7 @@ export class Client extends EventEmitter<Events> {
     // Header size in bytes
     const headerSize = 13;
 
-    // Use session parameters from the session info
-    const {
-      codec,
-      sample_rate: sampleRate,
-      channels,
-      bit_depth: bitDepth,
-    } = this.sessionInfo;
-    const bytesPerSample = 2;
+    const { codec, sample_rate: sampleRate } = this.sessionInfo;
 
     // Calculate duration in milliseconds from sample count and sample rate
     const durationMs = (sampleCount / sampleRate) * 1000;
@@ -278,84 +645,64 @@ export class Client extends EventEmitter<Events> {
       )}ms`,
     );
 
-    // Calculate the total number of samples per channel - now we directly use the sample count
-    const totalSamples = sampleCount;
-
-    // Verify that the number of samples matches the data size
-    const expectedDataSize = totalSamples * channels * bytesPerSample;
-    const actualDataSize = data.byteLength - headerSize;
-
-    if (expectedDataSize !== actualDataSize) {
-      this.logger.error(
-        `Data size mismatch: expected ${expectedDataSize} bytes, got ${actualDataSize} bytes`,
-      );
-      return;
-    }
-
-    // Create an AudioBuffer to hold the PCM data
-    const audioBuffer = this.audioContext.createBuffer(
-      channels,
-      totalSamples,
-      sampleRate,
+    this.audioDecoder.decode(
+      startTimeAtServer,
+      sampleCount,
+      new DataView(data, headerSize),
     );
+  }
 
-    // We must manually process the audio data because:
-    // 1. Web Audio API uses 32-bit float samples in range [-1,1]
-    // 2. Our input is 16-bit PCM integers in an interleaved format
-    // 3. AudioBuffer expects separate Float32Arrays for each channel
+  // Schedule decoded audio to play at its server timestamp.
+  private _playDecodedChunk(chunk: DecodedAudioChunk) {
+    // Convert server timestamp (microseconds) to output time (seconds)
+    const startTime = this.timeSync.serverToLocal(chunk.timestamp) / 1000000;
 
-    // Create channel arrays for more efficient processing
-    const channelArrays = [];
-    for (let c = 0; c < channels; c++) {
-      channelArrays.push(audioBuffer.getChannelData(c));
+    this.logger.log(
+      `Scheduling audio to play in ${(
+        startTime - this.output.currentTime
+      ).toFixed(3)}s at ${startTime.toFixed(3)}s (${
+        chunk.channelData[0].length
+      } samples)`,
+    );
+    this.output.enqueue(startTime, chunk);
+    if (this.flushedAt !== null && chunk.timestamp >= this.flushedAt) {
+      // Playback resumed
+      this.flushedAt = null;
+      this._updateState();
     }
+  }
 
-    // Process all samples more efficiently
-    for (let i = 0; i < totalSamples; i++) {
-      // Calculate the base offset for this sample frame
-      const baseOffset = headerSize + i * channels * bytesPerSample;
-
-      // Process each channel
-      for (let channel = 0; channel < channels; channel++) {
-        // Get the sample from the data view
-        const sample = dataView.getInt16(
-          baseOffset + channel * bytesPerSample,
-          true,
-        ); // little-endian
-
-        // Convert to float and store in the channel array
-        channelArrays[channel][i] = sample / 32768;
-      }
+  private _createAudioDecoder() {
+    this._closeAudioDecoder();
+    try {
+      this.audioDecoder = createAudioChunkDecoder(
+        this.sessionInfo!,
+        (chunk) => this._playDecodedChunk(chunk),
+        this.logger,
+      );
+    } catch (err) {
+      this.logger.error("Cannot decode session audio", err);
     }
+  }
 
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.audioContext.destination);
-
-    // Convert server timestamp (microseconds) to AudioContext time (seconds)
-    const startTimeInAudioContext =
-      startTimeAtServer / 1000000 - this.serverTimeDiff;
-
-    // Calculate how much time we have before this chunk should play
-    const scheduleDelay =
-      startTimeInAudioContext - this.audioContext.currentTime;
+  // Discard audio from a server timestamp on, as the session paused or
+  // continues elsewhere.
+  private _handleFlush(timestamp: number) {
+    if (!this.sessionInfo) {
+      return;
+    }
+    this.logger.log(`Flushing audio from ${timestamp}`);
+    // Audio still being decoded would otherwise be scheduled after the flush
+    this._createAudioDecoder();
+    this.output.flush(this.timeSync.serverToLocal(timestamp) / 1000000);
+    this.flushedAt = timestamp;
+    this._updateState();
+  }
 
-    if (scheduleDelay < 0) {
-      // We're late, log the issue but still play the audio immediately
-      this.logger.error(
-        `Audio chunk arrived ${(-scheduleDelay).toFixed(3)}s too late`,
-      );
-      source.start();
-    } else {
-      // Schedule the audio to play at the right time
-      this.logger.log(
-        `Scheduling audio to play in ${scheduleDelay.toFixed(
-          3,
-        )}s at ${startTimeInAudioContext.toFixed(
-          3,
-        )}s (${totalSamples} samples)`,
-      );
-      source.start(startTimeInAudioContext);
+  private _closeAudioDecoder() {
+    if (this.audioDecoder) {
+      this.audioDecoder.close();
+      this.audioDecoder = null;
     }
   }
 
@@ -389,51 +736,146 @@ export class Client extends EventEmitter<Events> {
   private _handleServerTime(payload: ServerTimeInfo, receivedAt: number) {
     const { player_transmitted, source_received, source_transmitted } = payload;
 
-    // Calculate the raw offset from this message (in seconds)
+    // Calculate the raw offset from this message (in microseconds)
     const offset =
       (source_received -
         player_transmitted +
         (source_transmitted - receivedAt)) /
-      2 /
-      1000000;
-
-    // Store the offset sample
-    this.serverTimeDiffSamples.push(offset);
-    if (this.serverTimeDiffSamples.length > MAX_TIME_DIFF_SAMPLES) {
-      this.serverTimeDiffSamples.shift();
-    } else if (this.serverTimeDiffSamples.length < MIN_TIME_DIFF_SAMPLES) {
-      // let's kick off another sample in 10ms
-      setTimeout(() => this._sendPlayerTime(), 10);
-    }
-
-    // Calculate the median of the samples for a stable offset
-    const sorted = [...this.serverTimeDiffSamples].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    let median: number;
-    if (sorted.length % 2 === 0) {
-      median = (sorted[mid - 1] + sorted[mid]) / 2;
+      2;
+    // Time spent on the network, excluding the time the server held on to it
+    const rtt =
+      receivedAt - player_transmitted - (source_transmitted - source_received);
+
+    if (this.timeSync.addSample(receivedAt, offset, rtt)) {
+      this.logger.log("Server clock jumped, resynchronizing");
+    }
+
+    if (this.timeSync.sampleCount < MIN_TIME_DIFF_SAMPLES) {
+      this._scheduleTimeSync(TIME_SYNC_BURST_INTERVAL);
+    } else if (this.timeSync.isStable) {
+      this._scheduleTimeSync(TIME_SYNC_STABLE_INTERVAL);
     } else {
-      median = sorted[mid];
+      this._scheduleTimeSync(TIME_SYNC_INTERVAL);
     }
-    this.serverTimeDiff = median;
 
+    const {
+      offset: estimatedOffset,
+      driftPpm,
+      accuracy,
+    } = this.timeSync.estimate;
     this.logger.log(
-      `Server time difference (${sorted.length} samples): ${this.serverTimeDiff} s`,
+      `Server time difference (${
+        this.timeSync.sampleCount
+      } samples): ${estimatedOffset} us ± ${Math.round(
+        accuracy,
+      )} us, drift ${driftPpm.toFixed(2)} ppm, rtt ${rtt} us`,
     );
   }
 
-  public sendStreamCommand(command: MediaCommand) {
+  private _handleVolume(payload: PlayerVolumeMessage["payload"]) {
+    this._applyVolume(
+      payload.volume ?? this._volume,
+      payload.muted ?? this._muted,
+    );
+    // Confirm the change to the server
+    this._sendPlayerState();
+    this.fire("state-update", this.playerState);
+  }
+
+  private _applyVolume(volume: number, muted: boolean) {
+    this._volume = Math.max(0, Math.min(100, volume));
+    this._muted = muted;
+    this.output.setGain(this._muted ? 0 : this._volume / 100);
+    this.fire("volume-update", { volume: this._volume, muted: this._muted });
+  }
+
+  public get volume(): number {
+    return this._volume;
+  }
+
+  public get muted(): boolean {
+    return this._muted;
+  }
+
+  // Change the volume (0-100) locally, e.g. from a volume control on the
+  // player, and let the server know.
+  public setVolume(volume: number) {
+    this._applyVolume(volume, this._muted);
+    this._reportPlayerState();
+    this.fire("state-update", this.playerState);
+  }
+
+  public setMuted(muted: boolean) {
+    this._applyVolume(this._volume, muted);
+    this._reportPlayerState();
+    this.fire("state-update", this.playerState);
+  }
+
+  private _reportPlayerState() {
+    if (this.ws?.readyState === WEBSOCKET_OPEN) {
+      this._sendPlayerState();
+    }
+  }
+
+  // Current estimate of how the server clock relates to ours and how well
+  // playback follows it.
+  public get syncStatus(): SyncStatus {
+    const { offset, driftPpm, accuracy, rtt } = this.timeSync.estimate;
+    return {
+      offset,
+      driftPpm,
+      accuracy,
+      rtt,
+      syncError: this.lastPlaybackStats?.playing
+        ? this.lastPlaybackStats.syncError * 1000000
+        : null,
+    };
+  }
+
+  // Current playback position in microseconds, extrapolated from the last
+  // position the server published using our synced clock. Null if the
+  // server did not publish one.
+  public getPosition(): number | null {
+    const anchor = this.metadata?.position;
+    if (!anchor) {
+      return null;
+    }
+    const now = this.timeSync.localToServer(this.output.currentTime * 1000000);
+    // Playback has not reached positions published ahead of time yet
+    let position =
+      anchor.position + Math.max(0, now - anchor.timestamp) * anchor.rate;
+    const duration = this.metadata?.duration ?? null;
+    if (duration !== null) {
+      position = Math.min(position, duration);
+    }
+    return position;
+  }
+
+  // Queue of the group we are in, null if the server did not send one
+  public get queue(): QueueUpdateMessage["payload"] | null {
+    return this._queue;
+  }
+
+  // Send a command to the session. Seek takes the position to seek to in
+  // microseconds, jump the index of the queue item to play.
+  public sendStreamCommand(command: MediaCommand, argument?: number) {
     if (!this.sessionInfo || !this.metadata) {
       throw new Error("Cannot send command: no active session");
     }
     if (!this.metadata.support_commands.includes(command)) {
       throw new Error(`Command ${command} not supported by session`);
     }
+    if ((command === "seek" || command === "jump") && argument === undefined) {
+      throw new Error(`Command ${command} needs an argument`);
+    }
     this.send({
       type: "stream/command",
-      payload: {
-        command,
-      },
+      payload:
+        command === "seek"
+          ? { command, position: argument }
+          : command === "jump"
+          ? { command, index: argument }
+          : { command },
     });
   }
 
@@ -448,10 +890,12 @@ export class Client extends EventEmitter<Events> {
 
   public unjoinGroup() {
     // Make sure any currently playing audio is stopping
-    this._resetAudioContext();
+    this.output.flush();
     this.send({
       type: "group/unjoin",
     });
+    this._queue = null;
+    this.fire("queue-update", null);
   }
 
   public async getServerGroups(): Promise<
@@ -467,26 +911,23 @@ export class Client extends EventEmitter<Events> {
     });
   }
 
-  private _resetAudioContext() {
-    // Make sure any currently playing audio is stopping
-    this.audioContext.close();
-    this.audioContext = new AudioContextClass();
-  }
-
   // Close the WebSocket connection and clean up resources.
   public disconnect() {
+    this._cancelReconnect();
     if (!this.ws) {
       return;
     }
     this.expectClose = true;
     this.ws.close();
     this.ws = null;
+    this._setConnectionState("disconnected");
 
     // Make sure any currently playing audio is stopping
-    this._resetAudioContext();
+    this.output.flush();
+    this.lastSessionId = null;
 
-    this.serverTimeDiff = 0;
-    this.serverTimeDiffSamples = [];
+    this._stopTimeSync();
+    this.timeSync.reset();
     this.serverInfo = null;
   }
 }
@@ -0,0 +1,268 @@
+import { Resampler, convertChannels } from "../audio/convert.js";
+import { EventEmitter } from "../util/event-emitter.js";
+import { Clock, TimerHandle, systemClock } from "../util/clock.js";
+import type { DecodedAudioChunk } from "./audio-decoder.js";
+import type {
+  AudioOutput,
+  AudioOutputEvents,
+  PlaybackStats,
+} from "./audio-output.js";
+
+// Receives the audio of a HeadlessOutput as one stream in a fixed format.
+export interface AudioSink {
+  // Called with consecutive audio, startTime is the output time in seconds
+  // the first frame plays at. Gaps in the stream are filled with silence,
+  // unless they are too long, then the next write starts a new stream.
+  write(
+    startTime: number,
+    channelData: Float32Array[],
+    sampleRate: number,
+  ): void;
+  close?(): void;
+}
+
+export interface HeadlessOutputOptions {
+  // Sample rate audio is converted to for the sink, default 48000
+  sampleRate?: number;
+  // Number of channels audio is converted to for the sink, default 2
+  channels?: number;
+  // Hand audio to the sink as soon as it arrives instead of when it is due,
+  // e.g. when writing to a file. Default false.
+  immediate?: boolean;
+  // Seconds audio is handed to the sink before it is due, to cover the
+  // latency of the sink, default 0.1
+  lead?: number;
+  // Clock of the output, defaults to the system clock
+  clock?: Clock;
+}
+
+// How often queued audio is handed to the sink, in milliseconds
+const PUMP_INTERVAL = 10;
+
+// How often stats are reported, in seconds
+const STATS_INTERVAL = 0.25;
+
+// Gaps in the audio up to this many seconds are filled with silence, after
+// longer ones a new stream is started
+const MAX_SILENCE = 1;
+
+interface QueuedChunk {
+  startFrame: number;
+  channelData: Float32Array[];
+  offset: number;
+}
+
+// Plays audio without Web Audio, by handing it to a sink at the time it is
+// due, which makes it usable in Node.js.
+export class HeadlessOutput
+  extends EventEmitter<AudioOutputEvents>
+  implements AudioOutput
+{
+  public readonly suspended = false;
+  public readonly sampleRate: number;
+  public readonly channels: number;
+  private readonly immediate: boolean;
+  private readonly lead: number;
+  private readonly clock: Clock;
+  private queue: QueuedChunk[] = [];
+  private resampler: Resampler | null = null;
+  private gain = 1;
+  // Frame the next audio handed to the sink starts at, null if not streaming
+  private nextFrame: number | null = null;
+  private playing = false;
+  private underruns = 0;
+  private droppedFrames = 0;
+  private lastStatsTime = 0;
+  private timer: TimerHandle | null = null;
+
+  constructor(
+    private readonly sink: AudioSink,
+    options: HeadlessOutputOptions = {},
+  ) {
+    super();
+    this.sampleRate = options.sampleRate ?? 48000;
+    this.channels = options.channels ?? 2;
+    this.immediate = options.immediate ?? false;
+    this.lead = options.lead ?? 0.1;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  get currentTime(): number {
+    return this.clock.now() / 1000000;
+  }
+
+  enqueue(startTime: number, chunk: DecodedAudioChunk) {
+    let channelData = convertChannels(chunk.channelData, this.channels);
+    if (chunk.sampleRate !== this.sampleRate) {
+      if (
+        !this.resampler ||
+        this.resampler.sourceRate !== chunk.sampleRate ||
+        this.resampler.targetRate !== this.sampleRate
+      ) {
+        this.resampler = new Resampler(chunk.sampleRate, this.sampleRate);
+      }
+      channelData = this.resampler.process(channelData);
+      if (channelData[0].length === 0) {
+        return;
+      }
+    }
+
+    const startFrame = Math.round(startTime * this.sampleRate);
+    // Chunks normally arrive in order, keep the queue sorted regardless
+    let index = this.queue.length;
+    while (index > 0 && this.queue[index - 1].startFrame > startFrame) {
+      index--;
+    }
+    this.queue.splice(index, 0, { startFrame, channelData, offset: 0 });
+    this._pump();
+    this._start();
+  }
+
+  // Audio that was already handed to the sink can't be taken back.
+  flush(fromTime?: number) {
+    if (fromTime === undefined) {
+      this.queue = [];
+      this.resampler = null;
+      return;
+    }
+    const fromFrame = Math.round(fromTime * this.sampleRate);
+    this.queue = this.queue.filter((chunk) => chunk.startFrame < fromFrame);
+    const last = this.queue[this.queue.length - 1];
+    if (last && last.startFrame + last.channelData[0].length > fromFrame) {
+      // Frames that were already dropped stay dropped
+      const length = fromFrame - last.startFrame;
+      if (length <= last.offset) {
+        this.queue.pop();
+      } else {
+        last.channelData = last.channelData.map((channel) =>
+          channel.subarray(0, length),
+        );
+      }
+    }
+  }
+
+  setGain(gain: number) {
+    this.gain = gain;
+  }
+
+  close() {
+    this._stop();
+    this.queue = [];
+    this.sink.close?.();
+  }
+
+  // Hand the audio that is due to the sink.
+  private _pump() {
+    const nowFrame = Math.round(this.currentTime * this.sampleRate);
+    if (
+      !this.immediate &&
+      this.nextFrame !== null &&
+      this.nextFrame < nowFrame
+    ) {
+      // The sink ran out of audio, start over when more arrives
+      this.nextFrame = null;
+    }
+    const untilFrame = this.immediate
+      ? Infinity
+      : nowFrame + Math.round(this.lead * this.sampleRate);
+
+    while (this.queue.length > 0) {
+      const chunk = this.queue[0];
+      const length = chunk.channelData[0].length;
+      const startFrame = chunk.startFrame + chunk.offset;
+      if (startFrame >= untilFrame) {
+        break;
+      }
+
+      // Audio must not be handed over later than it is due, or after the
+      // audio already handed over
+      const minFrame = Math.max(
+        this.immediate ? -Infinity : nowFrame,
+        this.nextFrame ?? -Infinity,
+      );
+      if (startFrame < minFrame) {
+        const late = Math.min(minFrame - startFrame, length - chunk.offset);
+        chunk.offset += late;
+        this.droppedFrames += late;
+        if (chunk.offset >= length) {
+          this.queue.shift();
+        }
+        continue;
+      }
+
+      if (this.nextFrame !== null && startFrame > this.nextFrame) {
+        const gap = startFrame - this.nextFrame;
+        if (gap <= MAX_SILENCE * this.sampleRate) {
+          this._write(
+            this.nextFrame,
+            Array.from({ length: this.channels }, () => new Float32Array(gap)),
+          );
+        }
+      }
+
+      const channelData =
+        chunk.offset > 0
+          ? chunk.channelData.map((channel) => channel.subarray(chunk.offset))
+          : chunk.channelData;
+      this._write(startFrame, channelData);
+      this.queue.shift();
+    }
+
+    this._updateStats(nowFrame);
+  }
+
+  private _write(startFrame: number, channelData: Float32Array[]) {
+    if (this.gain !== 1) {
+      channelData = channelData.map((channel) =>
+        channel.map((sample) => sample * this.gain),
+      );
+    }
+    this.sink.write(startFrame / this.sampleRate, channelData, this.sampleRate);
+    this.nextFrame = startFrame + channelData[0].length;
+  }
+
+  private _updateStats(nowFrame: number) {
+    const playing = this.nextFrame !== null && this.nextFrame > nowFrame;
+    if (this.playing && !playing) {
+      this.underruns++;
+    }
+    const changed = playing !== this.playing;
+    this.playing = playing;
+
+    const now = nowFrame / this.sampleRate;
+    if (!changed && now - this.lastStatsTime < STATS_INTERVAL) {
+      return;
+    }
+    this.lastStatsTime = now;
+    const last = this.queue[this.queue.length - 1];
+    const endFrame = last
+      ? last.startFrame + last.channelData[0].length
+      : this.nextFrame ?? nowFrame;
+    const stats: PlaybackStats = {
+      bufferedSeconds: Math.max(0, endFrame - nowFrame) / this.sampleRate,
+      underruns: this.underruns,
+      droppedFrames: this.droppedFrames,
+      // Audio is handed over at exactly the frame it is due
+      syncError: 0,
+      playing,
+    };
+    this.fire("stats", stats);
+    if (!playing && this.queue.length === 0) {
+      // Nothing to do until more audio arrives
+      this._stop();
+    }
+  }
+
+  private _start() {
+    if (!this.timer) {
+      this.timer = this.clock.setInterval(() => this._pump(), PUMP_INTERVAL);
+    }
+  }
+
+  private _stop() {
+    if (this.timer) {
+      this.clock.clearTimer(this.timer);
+      this.timer = null;
+    }
+  }
+}
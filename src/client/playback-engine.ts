@@ -0,0 +1,170 @@
+import type { Logger } from "../logging.js";
+import { Resampler, convertChannels } from "../audio/convert.js";
+import type { DecodedAudioChunk } from "./audio-decoder.js";
+import type { PlaybackStats } from "./audio-output.js";
+import {
+  PLAYBACK_PROCESSOR_NAME,
+  PLAYBACK_PROCESSOR_SOURCE,
+} from "./playback-processor.js";
+
+const OUTPUT_CHANNELS = 2;
+
+// Sync errors above this many seconds are corrected at once by inserting
+// silence or dropping audio, smaller ones gradually
+const HARD_SYNC_THRESHOLD = 0.01;
+
+// Minimum number of seconds between dropping or repeating a sample to
+// correct a small sync error. One sample every 20ms corrects about 1000ppm of
+// drift at 48kHz, well beyond what clock crystals drift, while single sample
+// corrections that far apart are not noticeable.
+const CORRECTION_INTERVAL = 0.02;
+
+// How often the playback processor reports its state, in seconds
+const STATS_INTERVAL = 0.25;
+
+interface QueuedChunk {
+  startFrame: number;
+  channelData: Float32Array[];
+}
+
+// Plays decoded audio through an AudioWorklet at the AudioContext time it is
+// scheduled for.
+export class PlaybackEngine {
+  private node: AudioWorkletNode | null = null;
+  // Chunks received while the worklet is still loading
+  private pending: QueuedChunk[] = [];
+  private resampler: Resampler | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly audioContext: AudioContext,
+    private readonly destination: AudioNode,
+    private readonly logger: Logger,
+    private readonly onStats: (stats: PlaybackStats) => void,
+  ) {
+    this._loadProcessor().catch((err) => {
+      this.logger.error("Failed to load playback processor", err);
+    });
+  }
+
+  // Queue a chunk to start playing at the given AudioContext time in seconds.
+  // Playback is contiguous, the start time is used to keep playback in sync.
+  enqueue(startTime: number, chunk: DecodedAudioChunk) {
+    const sampleRate = this.audioContext.sampleRate;
+    let channelData = convertChannels(chunk.channelData, OUTPUT_CHANNELS);
+
+    if (chunk.sampleRate !== sampleRate) {
+      if (
+        !this.resampler ||
+        this.resampler.sourceRate !== chunk.sampleRate ||
+        this.resampler.targetRate !== sampleRate
+      ) {
+        this.resampler = new Resampler(chunk.sampleRate, sampleRate);
+      }
+      channelData = this.resampler.process(channelData);
+      if (channelData[0].length === 0) {
+        return;
+      }
+    }
+
+    const queued: QueuedChunk = {
+      startFrame: startTime * sampleRate,
+      channelData,
+    };
+    if (this.node) {
+      this._post(queued);
+    } else {
+      this.pending.push(queued);
+    }
+  }
+
+  // Discard all queued audio, or only audio from the given AudioContext time.
+  flush(fromTime?: number) {
+    const fromFrame =
+      fromTime === undefined
+        ? undefined
+        : fromTime * this.audioContext.sampleRate;
+    this.pending =
+      fromFrame === undefined
+        ? []
+        : this.pending.filter((chunk) => chunk.startFrame < fromFrame);
+    if (fromFrame === undefined) {
+      this.resampler = null;
+    }
+    this.node?.port.postMessage({ type: "flush", fromFrame });
+  }
+
+  close() {
+    this.closed = true;
+    this.flush();
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+  }
+
+  private async _loadProcessor() {
+    const url = URL.createObjectURL(
+      new Blob([PLAYBACK_PROCESSOR_SOURCE], {
+        type: "application/javascript",
+      }),
+    );
+    try {
+      await this.audioContext.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    if (this.closed) {
+      return;
+    }
+
+    const { sampleRate } = this.audioContext;
+    this.node = new AudioWorkletNode(
+      this.audioContext,
+      PLAYBACK_PROCESSOR_NAME,
+      {
+        numberOfInputs: 0,
+        numberOfOutputs: 1,
+        outputChannelCount: [OUTPUT_CHANNELS],
+        processorOptions: {
+          hardSyncFrames: Math.round(HARD_SYNC_THRESHOLD * sampleRate),
+          correctionIntervalFrames: Math.round(
+            CORRECTION_INTERVAL * sampleRate,
+          ),
+          statsIntervalFrames: Math.round(STATS_INTERVAL * sampleRate),
+        },
+      },
+    );
+    this.node.port.onmessage = (event) => {
+      if (event.data.type !== "stats") {
+        return;
+      }
+      this.onStats({
+        bufferedSeconds: event.data.bufferedFrames / sampleRate,
+        underruns: event.data.underruns,
+        droppedFrames: event.data.droppedFrames,
+        syncError: event.data.syncError / sampleRate,
+        playing: event.data.playing,
+      });
+    };
+    this.node.connect(this.destination);
+
+    for (const chunk of this.pending) {
+      this._post(chunk);
+    }
+    this.pending = [];
+  }
+
+  private _post(chunk: QueuedChunk) {
+    const buffers = new Set(chunk.channelData.map((channel) => channel.buffer));
+    this.node!.port.postMessage(
+      {
+        type: "chunk",
+        startFrame: chunk.startFrame,
+        channelData: chunk.channelData,
+      },
+      Array.from(buffers) as ArrayBuffer[],
+    );
+  }
+}
@@ -0,0 +1,198 @@
+// Source of the AudioWorkletProcessor that plays decoded audio. It runs in the
+// AudioWorkletGlobalScope, so it is kept as plain JavaScript and loaded from a
+// Blob URL instead of being part of the compiled module graph.
+//
+// The processor keeps a queue of chunks, each with the (fractional)
+// AudioContext frame at which it should start playing, and plays them back to
+// back. The difference between where the audio should be and where playback
+// actually is, is the sync error. Small errors, like those caused by clock
+// drift, are corrected by dropping or repeating a single sample now and then.
+// Large errors are corrected at once: gaps are filled with silence and audio
+// that is late is dropped, realigning playback with the server timeline.
+
+export const PLAYBACK_PROCESSOR_NAME = "resonate-playback-processor";
+
+export const PLAYBACK_PROCESSOR_SOURCE = `
+class ResonatePlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { hardSyncFrames, correctionIntervalFrames, statsIntervalFrames } =
+      options.processorOptions;
+    this.hardSyncFrames = hardSyncFrames;
+    this.correctionIntervalFrames = correctionIntervalFrames;
+    this.statsIntervalFrames = statsIntervalFrames;
+    this.queue = [];
+    this.playing = false;
+    this.underruns = 0;
+    this.droppedFrames = 0;
+    this.syncError = 0;
+    this.framesSinceCorrection = 0;
+    this.lastSamples = [];
+    this.lastStatsFrame = 0;
+    this.port.onmessage = (event) => this.handleMessage(event.data);
+  }
+
+  handleMessage(message) {
+    switch (message.type) {
+      case "chunk":
+        this.enqueue(message.startFrame, message.channelData);
+        break;
+      case "flush":
+        this.flush(message.fromFrame);
+        break;
+    }
+  }
+
+  enqueue(startFrame, channelData) {
+    const chunk = {
+      startFrame,
+      channelData,
+      length: channelData[0].length,
+      offset: 0,
+    };
+    // Chunks normally arrive in order, keep the queue sorted regardless
+    let index = this.queue.length;
+    while (index > 0 && this.queue[index - 1].startFrame > startFrame) {
+      index--;
+    }
+    this.queue.splice(index, 0, chunk);
+  }
+
+  // Discard queued audio that would play at or after fromFrame, or all
+  // queued audio if fromFrame is not given.
+  flush(fromFrame) {
+    if (fromFrame === undefined) {
+      this.queue = [];
+      return;
+    }
+    this.queue = this.queue.filter((chunk) => chunk.startFrame < fromFrame);
+    const last = this.queue[this.queue.length - 1];
+    if (last && last.startFrame + last.length > fromFrame) {
+      // Audio that already played can't be taken back
+      last.length = Math.max(
+        last.offset,
+        Math.ceil(fromFrame - last.startFrame),
+      );
+      if (last.offset >= last.length) {
+        this.queue.pop();
+      }
+    }
+  }
+
+  markUnderrun() {
+    if (this.playing) {
+      this.playing = false;
+      this.underruns++;
+    }
+  }
+
+  // Skip late audio, which counts as dropped
+  dropFrames(chunk, count) {
+    this.droppedFrames += count;
+    this.skipFrames(chunk, count);
+  }
+
+  skipFrames(chunk, count) {
+    chunk.offset += count;
+    if (chunk.offset >= chunk.length) {
+      this.queue.shift();
+    }
+  }
+
+  process(inputs, outputs) {
+    const output = outputs[0];
+    const blockSize = output[0].length;
+    let i = 0;
+
+    while (i < blockSize) {
+      const now = currentFrame + i;
+      const chunk = this.queue[0];
+      if (!chunk) {
+        // Out of audio, the rest of the block stays silent
+        this.markUnderrun();
+        break;
+      }
+
+      // Positive when we are behind the timeline, negative when ahead
+      const error = now - (chunk.startFrame + chunk.offset);
+      this.syncError = error;
+      // Align exactly when (re)starting, correct hard when far off
+      const threshold = this.playing ? this.hardSyncFrames : 0.5;
+
+      if (error <= -threshold) {
+        // Gap before the next audio, conceal it with silence
+        this.markUnderrun();
+        i += Math.min(Math.max(1, Math.round(-error)), blockSize - i);
+        continue;
+      }
+
+      if (error >= threshold) {
+        // Late audio, drop it to realign with the timeline
+        this.dropFrames(
+          chunk,
+          Math.min(Math.max(1, Math.round(error)), chunk.length - chunk.offset),
+        );
+        continue;
+      }
+
+      const needsCorrection = Math.abs(error) >= 1;
+      if (
+        needsCorrection &&
+        this.framesSinceCorrection >= this.correctionIntervalFrames
+      ) {
+        this.framesSinceCorrection = 0;
+        if (error > 0) {
+          // Behind, skip a sample
+          this.skipFrames(chunk, 1);
+        } else {
+          // Ahead, repeat the previous sample
+          for (let c = 0; c < output.length; c++) {
+            output[c][i] = this.lastSamples[c] || 0;
+          }
+          i++;
+        }
+        continue;
+      }
+
+      let count = Math.min(chunk.length - chunk.offset, blockSize - i);
+      if (needsCorrection) {
+        count = Math.min(
+          count,
+          Math.max(1, this.correctionIntervalFrames - this.framesSinceCorrection),
+        );
+      }
+      for (let c = 0; c < output.length; c++) {
+        const source =
+          chunk.channelData[Math.min(c, chunk.channelData.length - 1)];
+        output[c].set(source.subarray(chunk.offset, chunk.offset + count), i);
+        this.lastSamples[c] = source[chunk.offset + count - 1];
+      }
+      this.playing = true;
+      this.framesSinceCorrection += count;
+      chunk.offset += count;
+      i += count;
+      if (chunk.offset >= chunk.length) {
+        this.queue.shift();
+      }
+    }
+
+    if (currentFrame - this.lastStatsFrame >= this.statsIntervalFrames) {
+      this.lastStatsFrame = currentFrame;
+      const last = this.queue[this.queue.length - 1];
+      this.port.postMessage({
+        type: "stats",
+        bufferedFrames: last
+          ? Math.max(0, last.startFrame + last.length - currentFrame)
+          : 0,
+        underruns: this.underruns,
+        droppedFrames: this.droppedFrames,
+        syncError: this.playing ? this.syncError : 0,
+        playing: this.playing,
+      });
+    }
+    return true;
+  }
+}
+
+registerProcessor("${PLAYBACK_PROCESSOR_NAME}", ResonatePlaybackProcessor);
+`;
@@ -0,0 +1,113 @@
+// Audio sinks for a HeadlessOutput. These use Node.js APIs.
+import { closeSync, openSync, writeSync } from "fs";
+import { encodePCM } from "../audio/pcm.js";
+import type { AudioSink } from "./headless-output.js";
+
+export type PCMSampleFormat = "s16le" | "s24le" | "s32le" | "f32le";
+
+const SAMPLE_FORMATS: Record<
+  PCMSampleFormat,
+  { bitDepth: number; isFloat: boolean }
+> = {
+  s16le: { bitDepth: 16, isFloat: false },
+  s24le: { bitDepth: 24, isFloat: false },
+  s32le: { bitDepth: 32, isFloat: false },
+  f32le: { bitDepth: 32, isFloat: true },
+};
+
+// Discards audio, remembering what was played when. Useful for testing.
+export class NullSink implements AudioSink {
+  public writes: Array<{
+    // Output time in seconds the audio started playing
+    startTime: number;
+    frames: number;
+    sampleRate: number;
+  }> = [];
+
+  write(startTime: number, channelData: Float32Array[], sampleRate: number) {
+    this.writes.push({
+      startTime,
+      frames: channelData[0].length,
+      sampleRate,
+    });
+  }
+}
+
+// Writes interleaved raw PCM to a stream, like process.stdout or the input
+// of a program like aplay.
+export class PCMStreamSink implements AudioSink {
+  constructor(
+    private readonly stream: { write(data: Uint8Array): unknown },
+    private readonly sampleFormat: PCMSampleFormat = "s16le",
+  ) {}
+
+  write(startTime: number, channelData: Float32Array[]) {
+    const { bitDepth, isFloat } = SAMPLE_FORMATS[this.sampleFormat];
+    this.stream.write(encodePCM(channelData, bitDepth, isFloat));
+  }
+}
+
+const WAV_HEADER_SIZE = 44;
+
+// Writes audio to a WAV file. The sizes in the header are filled in when the
+// sink is closed.
+export class WavFileSink implements AudioSink {
+  private fd: number | null = null;
+  private dataSize = 0;
+  private sampleRate = 0;
+  private channels = 0;
+
+  constructor(
+    private readonly path: string,
+    private readonly sampleFormat: PCMSampleFormat = "s16le",
+  ) {}
+
+  write(startTime: number, channelData: Float32Array[], sampleRate: number) {
+    if (this.fd === null) {
+      this.fd = openSync(this.path, "w");
+      this.sampleRate = sampleRate;
+      this.channels = channelData.length;
+      this._writeHeader();
+    }
+    const { bitDepth, isFloat } = SAMPLE_FORMATS[this.sampleFormat];
+    const data = encodePCM(channelData, bitDepth, isFloat);
+    writeSync(this.fd, data, 0, data.length, WAV_HEADER_SIZE + this.dataSize);
+    this.dataSize += data.length;
+  }
+
+  close() {
+    if (this.fd === null) {
+      return;
+    }
+    this._writeHeader();
+    closeSync(this.fd);
+    this.fd = null;
+  }
+
+  private _writeHeader() {
+    const { bitDepth, isFloat } = SAMPLE_FORMATS[this.sampleFormat];
+    const blockAlign = (this.channels * bitDepth) / 8;
+    const header = new Uint8Array(WAV_HEADER_SIZE);
+    const view = new DataView(header.buffer);
+    const writeString = (offset: number, value: string) => {
+      for (let i = 0; i < value.length; i++) {
+        view.setUint8(offset + i, value.charCodeAt(i));
+      }
+    };
+    writeString(0, "RIFF");
+    view.setUint32(4, WAV_HEADER_SIZE - 8 + this.dataSize, true);
+    writeString(8, "WAVE");
+    writeString(12, "fmt ");
+    view.setUint32(16, 16, true);
+    // 1 is integer PCM, 3 is IEEE float
+    view.setUint16(20, isFloat ? 3 : 1, true);
+    view.setUint16(22, this.channels, true);
+    view.setUint32(24, this.sampleRate, true);
+    view.setUint32(28, this.sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+    writeString(36, "data");
+    view.setUint32(40, this.dataSize, true);
+    writeSync(this.fd!, header, 0, header.length, 0);
+  }
+}
@@ -0,0 +1,213 @@
+// Maximum number of samples to keep for the offset and drift estimate
+const MAX_SAMPLES = 120;
+
+// Drift is only estimated once samples span at least this many microseconds,
+// shorter spans are dominated by network jitter
+const MIN_DRIFT_SPAN = 10000000;
+
+// Crystal oscillators are well within this, anything larger is noise
+const MAX_DRIFT_PPM = 500;
+
+// Samples with a round trip time above this factor of the best round trip
+// time seen are rejected, they were delayed by congestion
+const RTT_REJECT_FACTOR = 2;
+// Allow some slack on top so fast local networks don't reject everything
+const RTT_REJECT_SLACK = 2000;
+
+// Offsets deviating more than this many microseconds from the model, beyond
+// what the round trip time explains, indicate the clock jumped
+const JUMP_THRESHOLD = 5000;
+// Number of consecutive deviating samples before we accept a clock jump
+const JUMP_CONFIRMATIONS = 3;
+// Jumps are only detected once the estimate is based on this many samples
+const MIN_JUMP_SAMPLES = 10;
+
+// The estimate is considered stable once its accuracy is within this many
+// microseconds
+const STABLE_ACCURACY = 2000;
+
+interface TimeSample {
+  // Local time in microseconds the sample was taken at
+  localTime: number;
+  // Server time minus local time in microseconds
+  offset: number;
+  // Round trip time of the exchange in microseconds
+  rtt: number;
+}
+
+export interface TimeSyncEstimate {
+  // Server time minus local time in microseconds, at the latest sample
+  offset: number;
+  // How much faster the server clock runs than the local clock
+  driftPpm: number;
+  // Root mean square deviation of accepted samples from the estimate in
+  // microseconds
+  accuracy: number;
+  // Best round trip time of the samples in microseconds
+  rtt: number;
+}
+
+// Estimates the relation between the server clock and a local clock from
+// time sync exchanges, modelling both a fixed offset and a rate difference.
+// Like NTP, exchanges with a long round trip time are rejected and the rest
+// weighted by how precise they are.
+export class TimeSync {
+  private samples: TimeSample[] = [];
+  private deviatingSamples: TimeSample[] = [];
+  // Fitted model: offset = baseOffset + drift * (localTime - baseTime)
+  private baseTime = 0;
+  private baseOffset = 0;
+  private drift = 0;
+  private accuracy = Infinity;
+
+  get sampleCount(): number {
+    return this.samples.length;
+  }
+
+  // Whether enough good samples agree on the estimate
+  get isStable(): boolean {
+    return (
+      this.samples.length > 0 &&
+      this._span() >= MIN_DRIFT_SPAN &&
+      this.accuracy <= STABLE_ACCURACY
+    );
+  }
+
+  // Add the result of a time sync exchange. Returns true if the sample
+  // revealed a jump of the clocks, in which case older samples are dropped.
+  addSample(localTime: number, offset: number, rtt: number): boolean {
+    const sample: TimeSample = { localTime, offset, rtt: Math.max(0, rtt) };
+
+    if (
+      this.samples.length >= MIN_JUMP_SAMPLES &&
+      sample.rtt <= this._rttLimit()
+    ) {
+      const deviation = Math.abs(offset - this._offsetAt(localTime));
+      if (deviation > JUMP_THRESHOLD + sample.rtt / 2) {
+        this.deviatingSamples.push(sample);
+        if (this.deviatingSamples.length < JUMP_CONFIRMATIONS) {
+          return false;
+        }
+        // Consistent deviation, start over from the new samples
+        this.samples = this.deviatingSamples;
+        this.deviatingSamples = [];
+        this._fit();
+        return true;
+      }
+      this.deviatingSamples = [];
+    }
+
+    this.samples.push(sample);
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+    this._fit();
+    return false;
+  }
+
+  reset() {
+    this.samples = [];
+    this.deviatingSamples = [];
+    this.baseTime = 0;
+    this.baseOffset = 0;
+    this.drift = 0;
+    this.accuracy = Infinity;
+  }
+
+  get estimate(): TimeSyncEstimate {
+    const latest = this.samples[this.samples.length - 1];
+    return {
+      offset: latest ? this._offsetAt(latest.localTime) : 0,
+      driftPpm: this.drift * 1000000,
+      accuracy: this.accuracy,
+      rtt: this.samples.length > 0 ? this._minRtt() : Infinity,
+    };
+  }
+
+  localToServer(localTime: number): number {
+    return localTime + this._offsetAt(localTime);
+  }
+
+  serverToLocal(serverTime: number): number {
+    // Solve serverTime = localTime + baseOffset + drift * (localTime - baseTime)
+    return (
+      (serverTime - this.baseOffset + this.drift * this.baseTime) /
+      (1 + this.drift)
+    );
+  }
+
+  private _offsetAt(localTime: number): number {
+    return this.baseOffset + this.drift * (localTime - this.baseTime);
+  }
+
+  private _span(): number {
+    return (
+      this.samples[this.samples.length - 1].localTime -
+      this.samples[0].localTime
+    );
+  }
+
+  private _minRtt(): number {
+    return Math.min(...this.samples.map((sample) => sample.rtt));
+  }
+
+  private _rttLimit(): number {
+    const minRtt = this._minRtt();
+    return Math.max(minRtt * RTT_REJECT_FACTOR, minRtt + RTT_REJECT_SLACK);
+  }
+
+  private _fit() {
+    const rttLimit = this._rttLimit();
+    const accepted = this.samples.filter((sample) => sample.rtt <= rttLimit);
+    // The offset of an exchange is only known to within half its round trip
+    // time, weigh samples accordingly
+    const weights = accepted.map(
+      (sample) => 1 / Math.max(sample.rtt / 2, 100) ** 2,
+    );
+
+    let totalWeight = 0;
+    let meanTime = 0;
+    let meanOffset = 0;
+    accepted.forEach((sample, i) => {
+      totalWeight += weights[i];
+      meanTime += weights[i] * sample.localTime;
+      meanOffset += weights[i] * sample.offset;
+    });
+    meanTime /= totalWeight;
+    meanOffset /= totalWeight;
+
+    this.baseTime = meanTime;
+    this.baseOffset = meanOffset;
+    this.drift = 0;
+
+    if (this._span() >= MIN_DRIFT_SPAN) {
+      // Weighted least squares fit of offset against local time, centred on
+      // the means to keep the numbers small
+      let covariance = 0;
+      let variance = 0;
+      accepted.forEach((sample, i) => {
+        const dt = sample.localTime - meanTime;
+        covariance += weights[i] * dt * (sample.offset - meanOffset);
+        variance += weights[i] * dt * dt;
+      });
+      if (variance > 0) {
+        const maxDrift = MAX_DRIFT_PPM / 1000000;
+        this.drift = Math.max(
+          -maxDrift,
+          Math.min(maxDrift, covariance / variance),
+        );
+      }
+    }
+
+    if (accepted.length < 2) {
+      this.accuracy = accepted[0].rtt / 2;
+      return;
+    }
+    let squaredError = 0;
+    accepted.forEach((sample, i) => {
+      squaredError +=
+        weights[i] * (sample.offset - this._offsetAt(sample.localTime)) ** 2;
+    });
+    this.accuracy = Math.sqrt(squaredError / totalWeight);
+  }
+}
@@ -0,0 +1,66 @@
+import type { Logger } from "../logging.js";
+import { EventEmitter } from "../util/event-emitter.js";
+import type { DecodedAudioChunk } from "./audio-decoder.js";
+import type { AudioOutput, AudioOutputEvents } from "./audio-output.js";
+import { PlaybackEngine } from "./playback-engine.js";
+
+// Seconds over which gain changes are smoothed to avoid clicks
+const GAIN_RAMP_TIME = 0.02;
+
+// Plays audio in the browser using the Web Audio API.
+export class WebAudioOutput
+  extends EventEmitter<AudioOutputEvents>
+  implements AudioOutput
+{
+  public readonly audioContext: AudioContext;
+  private gainNode: GainNode;
+  private playbackEngine: PlaybackEngine;
+
+  constructor(logger: Logger = console) {
+    super();
+    // Use standard AudioContext or fallback to webkitAudioContext
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    this.audioContext = new AudioContextClass();
+    this.gainNode = this.audioContext.createGain();
+    this.gainNode.connect(this.audioContext.destination);
+    this.playbackEngine = new PlaybackEngine(
+      this.audioContext,
+      this.gainNode,
+      logger,
+      (stats) => this.fire("stats", stats),
+    );
+    // Browsers suspend the AudioContext until the user interacts with the page
+    this.audioContext.addEventListener("statechange", () =>
+      this.fire("suspended-change", this.suspended),
+    );
+  }
+
+  get currentTime(): number {
+    return this.audioContext.currentTime;
+  }
+
+  get suspended(): boolean {
+    return this.audioContext.state === "suspended";
+  }
+
+  enqueue(startTime: number, chunk: DecodedAudioChunk) {
+    this.playbackEngine.enqueue(startTime, chunk);
+  }
+
+  flush(fromTime?: number) {
+    this.playbackEngine.flush(fromTime);
+  }
+
+  setGain(gain: number) {
+    this.gainNode.gain.setTargetAtTime(
+      gain,
+      this.audioContext.currentTime,
+      GAIN_RAMP_TIME,
+    );
+  }
+
+  close() {
+    this.playbackEngine.close();
+    this.audioContext.close();
+  }
+}
@@ -0,0 +1,267 @@
+import type {
+  ClientMessages,
+  ProtocolErrorCode,
+  ServerMessages,
+} from "./messages.js";
+
+// Thrown when a peer sends something that is not a valid protocol message
+export class ProtocolError extends Error {
+  constructor(public readonly code: ProtocolErrorCode, message: string) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+// Returns what is wrong with a value, or null if it is valid
+type Validator = (value: unknown) => string | null;
+
+const string: Validator = (value) =>
+  typeof value === "string" ? null : "expected a string";
+
+const number: Validator = (value) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? null
+    : "expected a number";
+
+const nonNegative: Validator = (value) =>
+  number(value) ??
+  ((value as number) < 0 ? "expected a number of at least 0" : null);
+
+const boolean: Validator = (value) =>
+  typeof value === "boolean" ? null : "expected a boolean";
+
+const nullable =
+  (validator: Validator): Validator =>
+  (value) =>
+    value === null ? null : validator(value);
+
+const optional =
+  (validator: Validator): Validator =>
+  (value) =>
+    value === undefined ? null : validator(value);
+
+const oneOf =
+  (...options: unknown[]): Validator =>
+  (value) =>
+    options.includes(value)
+      ? null
+      : `expected one of ${options.map((o) => JSON.stringify(o)).join(", ")}`;
+
+const arrayOf =
+  (validator: Validator): Validator =>
+  (value) => {
+    if (!Array.isArray(value)) {
+      return "expected an array";
+    }
+    for (let i = 0; i < value.length; i++) {
+      const error = validator(value[i]);
+      if (error) {
+        return `[${i}]: ${error}`;
+      }
+    }
+    return null;
+  };
+
+// Unknown keys are allowed so peers can add fields without breaking us
+const object =
+  (fields: Record<string, Validator>, partial = false): Validator =>
+  (value) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return "expected an object";
+    }
+    for (const [key, validator] of Object.entries(fields)) {
+      const field = (value as Record<string, unknown>)[key];
+      if (partial && field === undefined) {
+        continue;
+      }
+      const error = validator(field);
+      if (error) {
+        return error.startsWith("[") ? key + error : `${key}: ${error}`;
+      }
+    }
+    return null;
+  };
+
+const MEDIA_COMMANDS = [
+  "play",
+  "pause",
+  "stop",
+  "seek",
+  "volume",
+  "next",
+  "previous",
+  "jump",
+];
+const REPEAT_MODES = ["off", "one", "all"];
+
+const PLAYER_INFO = object({
+  player_id: string,
+  name: string,
+  role: string,
+  buffer_capacity: number,
+  support_codecs: arrayOf(string),
+  support_channels: arrayOf(number),
+  support_sample_rates: arrayOf(number),
+  support_bit_depth: arrayOf(number),
+  support_streams: arrayOf(string),
+  support_picture_formats: arrayOf(string),
+  media_display_size: nullable(string),
+  version: optional(number),
+  features: optional(arrayOf(string)),
+});
+
+const METADATA_FIELDS = {
+  title: nullable(string),
+  artist: nullable(string),
+  album: nullable(string),
+  year: nullable(number),
+  track: nullable(number),
+  group_members: arrayOf(string),
+  // Servers of later protocol versions can offer commands we don't know,
+  // those are dropped when parsing
+  support_commands: arrayOf(string),
+  repeat: oneOf(...REPEAT_MODES),
+  shuffle: boolean,
+  duration: optional(nullable(number)),
+  position: optional(
+    nullable(object({ position: number, timestamp: number, rate: number })),
+  ),
+};
+
+const ERROR = object({
+  code: string,
+  message: string,
+});
+
+// Payload validators by message type, null for messages without payload
+const CLIENT_PAYLOADS: Record<ClientMessages["type"], Validator | null> = {
+  "player/hello": PLAYER_INFO,
+  "stream/command": object({
+    command: oneOf(...MEDIA_COMMANDS),
+    position: optional(nonNegative),
+    index: optional(nonNegative),
+  }),
+  "player/state": object({
+    state: oneOf("idle", "buffering", "playing", "paused"),
+    volume: number,
+    muted: boolean,
+  }),
+  "player/time": object({ player_transmitted: number }),
+  "player/sync": object({
+    accuracy: number,
+    rtt: number,
+    drift_ppm: number,
+    sync_error: nullable(number),
+  }),
+  "group/join": object({ groupId: string }),
+  "group/unjoin": null,
+  "group/get-list": null,
+  error: ERROR,
+};
+
+const SERVER_PAYLOADS: Record<ServerMessages["type"], Validator | null> = {
+  "session/start": object({
+    session_id: string,
+    codec: string,
+    sample_rate: number,
+    channels: number,
+    bit_depth: number,
+    now: number,
+    codec_header: nullable(string),
+  }),
+  "session/end": object({ sessionId: string }),
+  "source/hello": object({
+    source_id: string,
+    name: string,
+    version: optional(number),
+    features: optional(arrayOf(string)),
+  }),
+  "metadata/update": object(METADATA_FIELDS, true),
+  "source/time": object({
+    player_transmitted: number,
+    source_received: number,
+    source_transmitted: number,
+  }),
+  "player/volume": object({
+    volume: optional(number),
+    muted: optional(boolean),
+  }),
+  "stream/flush": object({ timestamp: number }),
+  "queue/update": object({
+    items: arrayOf(
+      object({
+        id: string,
+        title: nullable(string),
+        artist: nullable(string),
+        album: nullable(string),
+        duration: nullable(number),
+      }),
+    ),
+    current: nullable(number),
+    repeat: oneOf(...REPEAT_MODES),
+    shuffle: boolean,
+  }),
+  "group/list": object({
+    groups: arrayOf(
+      object({
+        groupId: string,
+        state: oneOf("idle", "playing", "paused"),
+      }),
+    ),
+  }),
+  error: ERROR,
+};
+
+// Returns null for messages of a type we don't know, which newer peers can
+// send. They are not an error, like unknown keys.
+function parseMessage(
+  data: string,
+  payloads: Record<string, Validator | null>,
+): unknown {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch (err) {
+    throw new ProtocolError("invalid_json", "Message is not valid JSON");
+  }
+  if (
+    typeof message !== "object" ||
+    message === null ||
+    Array.isArray(message)
+  ) {
+    throw new ProtocolError("invalid_message", "Message is not an object");
+  }
+  const { type, payload } = message as { type?: unknown; payload?: unknown };
+  if (typeof type !== "string") {
+    throw new ProtocolError("invalid_message", "Message has no type");
+  }
+  if (!Object.prototype.hasOwnProperty.call(payloads, type)) {
+    return null;
+  }
+  const validator = payloads[type];
+  const error = validator ? validator(payload) : null;
+  if (error) {
+    throw new ProtocolError(
+      "invalid_message",
+      `Invalid ${type} payload: ${error}`,
+    );
+  }
+  return message;
+}
+
+// Parse and validate a message sent by a player, null if its type is
+// unknown.
+export const parseClientMessage = (data: string): ClientMessages | null =>
+  parseMessage(data, CLIENT_PAYLOADS) as ClientMessages | null;
+
+// Parse and validate a message sent by the server, null if its type is
+// unknown.
+export function parseServerMessage(data: string): ServerMessages | null {
+  const message = parseMessage(data, SERVER_PAYLOADS) as ServerMessages | null;
+  if (message?.type === "metadata/update" && message.payload.support_commands) {
+    message.payload.support_commands = message.payload.support_commands.filter(
+      (command) => MEDIA_COMMANDS.includes(command),
+    );
+  }
+  return message;
+}
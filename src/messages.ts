@@ -1,10 +1,21 @@
+// Version of the protocol implemented here. Version 1 is the original
+// protocol, its hellos carry no version.
+export const PROTOCOL_VERSION = 4;
+// Oldest version of the protocol we can still talk
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Optional capabilities announced in the hellos:
+// - volume: the player applies player/volume commands
+// - sync-report: the server accepts player/sync reports
+export type ProtocolFeature = "volume" | "sync-report";
+
 export interface SessionInfo {
   session_id: string;
   codec: string;
   sample_rate: number;
   channels: number;
   bit_depth: number;
-  now: number; // in ms
+  now: number; // Server time in microseconds
   codec_header: string | null;
 }
 
@@ -20,6 +31,8 @@ export interface PlayerInfo {
   support_streams: string[];
   support_picture_formats: string[];
   media_display_size: string | null;
+  version?: number; // Absent for version 1
+  features?: ProtocolFeature[];
 }
 
 export interface PlayerTimeInfo {
@@ -37,9 +50,29 @@ export interface PlayerTimeMessage {
   payload: PlayerTimeInfo;
 }
 
+// Sync quality achieved by a player, reported periodically
+export interface PlayerSyncInfo {
+  // Estimated accuracy of the clock offset in microseconds
+  accuracy: number;
+  // Best recent round trip time of the time exchange in microseconds
+  rtt: number;
+  // How much faster the server clock runs than the player clock
+  drift_ppm: number;
+  // How far playback is behind (positive) or ahead of (negative) the server
+  // timeline in microseconds, null when not playing
+  sync_error: number | null;
+}
+
+export interface PlayerSyncMessage {
+  type: "player/sync";
+  payload: PlayerSyncInfo;
+}
+
 export interface ServerInfo {
   source_id: string;
   name: string;
+  version?: number; // Absent for version 1
+  features?: ProtocolFeature[];
 }
 
 export interface ServerHelloMessage {
@@ -64,7 +97,25 @@ export interface SessionEndMessage {
   };
 }
 
-export type MediaCommand = "play" | "pause" | "stop" | "seek" | "volume";
+export type MediaCommand =
+  | "play"
+  | "pause"
+  | "stop"
+  | "seek"
+  | "volume"
+  | "next"
+  | "previous"
+  | "jump";
+
+export type RepeatMode = "off" | "one" | "all";
+
+// Playback was at position at the server timestamp, and advances rate
+// microseconds per microsecond from there: 1 while playing, 0 while paused
+export interface PlaybackPosition {
+  position: number; // Microseconds from the start of the track
+  timestamp: number; // Server time in microseconds
+  rate: number;
+}
 
 export interface Metadata {
   title: string | null;
@@ -74,8 +125,14 @@ export interface Metadata {
   track: number | null;
   group_members: string[];
   support_commands: MediaCommand[];
-  repeat: "off" | "one" | "all";
+  repeat: RepeatMode;
   shuffle: boolean;
+  // Length of the track in microseconds, null if unknown like for a live
+  // stream. Absent from older servers.
+  duration?: number | null;
+  // Only updated when playback jumps, pauses or changes speed, players
+  // extrapolate the current position. Absent from older servers.
+  position?: PlaybackPosition | null;
 }
 
 export interface MetadataUpdateMessage {
@@ -92,12 +149,49 @@ export interface StreamCommandMessage {
   type: "stream/command";
   payload: {
     command: MediaCommand;
+    // Position to seek to in microseconds, for the seek command
+    position?: number;
+    // Queue index to play, for the jump command
+    index?: number;
+  };
+}
+
+// Sent by the server to discard audio the player received but has not played
+// yet, from the given server timestamp in microseconds on. Audio sent after
+// this message plays normally.
+export interface StreamFlushMessage {
+  type: "stream/flush";
+  payload: {
+    timestamp: number;
+  };
+}
+
+export interface QueueItemInfo {
+  id: string;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  duration: number | null; // Microseconds, null if unknown
+}
+
+// Sent by the server to the players of a group when its queue changed
+export interface QueueUpdateMessage {
+  type: "queue/update";
+  payload: {
+    // In play order
+    items: QueueItemInfo[];
+    // Index of the item playing, null if none
+    current: number | null;
+    repeat: RepeatMode;
+    shuffle: boolean;
   };
 }
 
 export interface PlayerState {
-  state: "playing" | "paused" | "idle";
-  volume: number;
+  // idle: no session, buffering: waiting for audio to play, paused: holding
+  // audio without playing it
+  state: "idle" | "buffering" | "playing" | "paused";
+  volume: number; // 0-100
   muted: boolean;
 }
 
@@ -106,6 +200,16 @@ export interface PlayerStateMessage {
   payload: PlayerState;
 }
 
+// Sent by the server to change the volume of a player, which confirms with a
+// player/state message
+export interface PlayerVolumeMessage {
+  type: "player/volume";
+  payload: {
+    volume?: number; // 0-100
+    muted?: boolean;
+  };
+}
+
 export interface GroupJoinMessage {
   type: "group/join";
   payload: {
@@ -131,14 +235,61 @@ export interface GroupListMessage {
   };
 }
 
+export type ProtocolErrorCode =
+  | "unsupported_version"
+  | "invalid_json"
+  | "invalid_message"
+  | "unexpected_message"
+  | "unsupported_data";
+
+// Sent by either side when it received a message it could not handle
+export interface ErrorMessage {
+  type: "error";
+  payload: {
+    code: ProtocolErrorCode;
+    message: string;
+  };
+}
+
+// Protocol version that introduced each message type added after version 1.
+// These are not sent to peers talking an older version.
+export const MESSAGE_VERSIONS: { [type: string]: number } = {
+  "player/sync": 2,
+  "player/volume": 2,
+  error: 2,
+  "stream/flush": 3,
+  "queue/update": 4,
+};
+
+export const isMessageSupported = (
+  type: string,
+  protocolVersion: number,
+): boolean => (MESSAGE_VERSIONS[type] ?? 1) <= protocolVersion;
+
+// Protocol version that introduced each media command added after version 1.
+// These are left out of the support_commands sent to peers talking an older
+// version.
+export const COMMAND_VERSIONS: { [command: string]: number } = {
+  next: 4,
+  previous: 4,
+  jump: 4,
+};
+
+export const isCommandSupported = (
+  command: MediaCommand,
+  protocolVersion: number,
+): boolean => (COMMAND_VERSIONS[command] ?? 1) <= protocolVersion;
+
 export type ClientMessages =
   | PlayerHelloMessage
   | StreamCommandMessage
   | PlayerStateMessage
   | PlayerTimeMessage
+  | PlayerSyncMessage
   | GroupJoinMessage
   | GroupUnjoinMessage
-  | GroupGetListMessage;
+  | GroupGetListMessage
+  | ErrorMessage;
 
 export type ServerMessages =
   | SessionStartMessage
@@ -146,9 +297,31 @@ export type ServerMessages =
   | ServerHelloMessage
   | MetadataUpdateMessage
   | ServerTimeMessage
-  | GroupListMessage;
+  | PlayerVolumeMessage
+  | StreamFlushMessage
+  | QueueUpdateMessage
+  | GroupListMessage
+  | ErrorMessage;
 
 export enum BinaryMessageType {
   PlayAudioChunk = 1,
   MediaArt = 2,
 }
+
+export enum CloseCode {
+  Normal = 1000,
+  ProtocolError = 1002,
+  UnsupportedData = 1003,
+  PolicyViolation = 1008,
+  InternalError = 1011,
+  // Browsers can only close with 1000 or 3000-4999
+  HeartbeatTimeout = 4000,
+  // A new connection of the same player took over, don't reconnect
+  Replaced = 4001,
+  PlayerProtocolError = 4002,
+  // The player is already connected and the server keeps that connection,
+  // don't reconnect
+  DuplicatePlayer = 4003,
+  // The player could not keep up with the audio, reconnect after a while
+  TooSlow = 4004,
+}
@@ -0,0 +1,45 @@
+// Don't keep more than this many microseconds of audio, no matter how far
+// ahead of its play time audio is sent
+const MAX_BACKLOG_DURATION = 5000000;
+
+interface BacklogEntry<T> {
+  endTime: number;
+  item: T;
+}
+
+// Keeps recently sent audio whose play time has not passed yet, so it can be
+// replayed to clients that join a session while it is playing.
+export class AudioBacklog<T> {
+  private entries: BacklogEntry<T>[] = [];
+
+  constructor(private readonly maxDuration: number = MAX_BACKLOG_DURATION) {}
+
+  // Remember an item playing from timestamp for duration microseconds.
+  add(timestamp: number, duration: number, item: T) {
+    const endTime = timestamp + duration;
+    this.entries.push({ endTime, item });
+    while (
+      this.entries.length > 1 &&
+      endTime - this.entries[0].endTime > this.maxDuration
+    ) {
+      this.entries.shift();
+    }
+  }
+
+  // Forget items that are still playing at the given server time, as that
+  // audio was flushed.
+  discardFrom(timestamp: number) {
+    this.entries = this.entries.filter((entry) => entry.endTime <= timestamp);
+  }
+
+  // Items that have not completely played at the given server time, oldest
+  // first.
+  pending(now: number): T[] {
+    this.entries = this.entries.filter((entry) => entry.endTime > now);
+    return this.entries.map((entry) => entry.item);
+  }
+
+  clear() {
+    this.entries = [];
+  }
+}
@@ -0,0 +1,103 @@
+import type { AudioFormat } from "../audio/audio-format.js";
+import { FlacEncoder } from "../audio/flac-encoder.js";
+import { encodeCodecHeader } from "../audio/codec-header.js";
+import {
+  PCM_BIT_DEPTHS,
+  PCM_CODEC,
+  PCM_FLOAT_BIT_DEPTHS,
+  PCM_FLOAT_CODEC,
+  encodePCM,
+} from "../audio/pcm.js";
+
+export interface AudioEncoder {
+  // Value for SessionInfo.codec_header
+  readonly codecHeader: string | null;
+  // Encode planar float samples ([-1, 1]) into the payload of one audio chunk
+  encode(channelData: Float32Array[]): Uint8Array;
+}
+
+export interface AudioEncoderFactory {
+  // Bit depths this encoder can produce, in order of preference
+  bitDepths: number[];
+  // Sample rates this encoder can produce, any if not set
+  sampleRates?: number[];
+  create(format: AudioFormat): AudioEncoder;
+}
+
+const clamp = (sample: number) => Math.max(-1, Math.min(1, sample));
+
+class PCMEncoder implements AudioEncoder {
+  readonly codecHeader = null;
+
+  constructor(
+    private readonly format: AudioFormat,
+    private readonly isFloat: boolean,
+  ) {}
+
+  encode(channelData: Float32Array[]): Uint8Array {
+    return encodePCM(channelData, this.format.bitDepth, this.isFloat);
+  }
+}
+
+class FlacAudioEncoder implements AudioEncoder {
+  readonly codecHeader: string;
+  private readonly encoder: FlacEncoder;
+  private readonly maxValue: number;
+
+  constructor(format: AudioFormat) {
+    this.encoder = new FlacEncoder(
+      format.sampleRate,
+      format.channels,
+      format.bitDepth,
+    );
+    this.codecHeader = encodeCodecHeader(this.encoder.streamInfo);
+    this.maxValue = 2 ** (format.bitDepth - 1) - 1;
+  }
+
+  encode(channelData: Float32Array[]): Uint8Array {
+    return this.encoder.encodeFrame(
+      channelData.map((samples) =>
+        Int32Array.from(samples, (sample) =>
+          Math.round(clamp(sample) * this.maxValue),
+        ),
+      ),
+    );
+  }
+}
+
+const encoderFactories = new Map<string, AudioEncoderFactory>([
+  [
+    PCM_CODEC,
+    {
+      bitDepths: PCM_BIT_DEPTHS,
+      create: (format) => new PCMEncoder(format, false),
+    },
+  ],
+  [
+    PCM_FLOAT_CODEC,
+    {
+      bitDepths: PCM_FLOAT_BIT_DEPTHS,
+      create: (format) => new PCMEncoder(format, true),
+    },
+  ],
+  [
+    "flac",
+    {
+      bitDepths: [24, 16],
+      create: (format) => new FlacAudioEncoder(format),
+    },
+  ],
+]);
+
+// Make an additional codec available for transcoding, for example an Opus
+// encoder backed by a native library.
+export function registerAudioEncoder(
+  codec: string,
+  factory: AudioEncoderFactory,
+) {
+  encoderFactories.set(codec, factory);
+}
+
+export const getAudioEncoderFactory = (
+  codec: string,
+): AudioEncoderFactory | undefined => encoderFactories.get(codec);
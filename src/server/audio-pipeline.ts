@@ -0,0 +1,126 @@
+import type { PlayerInfo, SessionInfo } from "../messages.js";
+import { AudioFormat, audioFormatKey } from "../audio/audio-format.js";
+import { Resampler, convertChannels } from "../audio/convert.js";
+import { AudioEncoder, getAudioEncoderFactory } from "./audio-encoder.js";
+import { AudioBacklog } from "./audio-backlog.js";
+import type { AudioPacket } from "./client-audio-queue.js";
+
+// Pick the candidate equal to the wanted value, else the closest one above
+// it, else the closest one below it.
+function pickClosest(wanted: number, candidates: number[]): number | null {
+  if (candidates.includes(wanted)) {
+    return wanted;
+  }
+  const above = candidates.filter((value) => value > wanted);
+  if (above.length > 0) {
+    return Math.min(...above);
+  }
+  return candidates.length > 0 ? Math.max(...candidates) : null;
+}
+
+// Determine the format a player should receive for a session. Returns null
+// if the player cannot be served.
+export function negotiateAudioFormat(
+  source: AudioFormat,
+  playerInfo: PlayerInfo,
+): AudioFormat | null {
+  if (!getAudioEncoderFactory(source.codec)) {
+    // Audio is sent pre-encoded, the player has to take it as is
+    const supported =
+      playerInfo.support_codecs.includes(source.codec) &&
+      playerInfo.support_sample_rates.includes(source.sampleRate) &&
+      playerInfo.support_channels.includes(source.channels) &&
+      playerInfo.support_bit_depth.includes(source.bitDepth);
+    return supported ? source : null;
+  }
+
+  // Prefer the session codec, then whatever the player prefers, taking the
+  // first codec the player supports in a usable rate, layout and bit depth
+  const codecs = [source.codec, ...playerInfo.support_codecs].filter((codec) =>
+    playerInfo.support_codecs.includes(codec),
+  );
+  for (const codec of codecs) {
+    const factory = getAudioEncoderFactory(codec);
+    if (!factory) {
+      continue;
+    }
+    const sampleRate = pickClosest(
+      source.sampleRate,
+      factory.sampleRates
+        ? playerInfo.support_sample_rates.filter((rate) =>
+            factory.sampleRates!.includes(rate),
+          )
+        : playerInfo.support_sample_rates,
+    );
+    const channels = pickClosest(source.channels, playerInfo.support_channels);
+    const bitDepth = pickClosest(
+      source.bitDepth,
+      factory.bitDepths.filter((depth) =>
+        playerInfo.support_bit_depth.includes(depth),
+      ),
+    );
+    if (sampleRate !== null && channels !== null && bitDepth !== null) {
+      return { codec, sampleRate, channels, bitDepth };
+    }
+  }
+  return null;
+}
+
+// Converts session audio into the format of a group of clients. Clients with
+// the same format share a pipeline so the work is only done once.
+export class AudioPipeline {
+  public readonly key: string;
+  public readonly sessionInfo: SessionInfo;
+  // Audio packets sent in this format that are still to be played
+  public readonly backlog = new AudioBacklog<AudioPacket>();
+  private readonly encoder: AudioEncoder | null;
+  private readonly resampler: Resampler | null;
+
+  constructor(
+    source: AudioFormat,
+    public readonly format: AudioFormat,
+    sourceSessionInfo: SessionInfo,
+  ) {
+    this.key = audioFormatKey(format);
+    const factory = getAudioEncoderFactory(format.codec);
+    // Without an encoder the session audio is sent pre-encoded as is
+    this.encoder = factory ? factory.create(format) : null;
+    this.resampler =
+      source.sampleRate !== format.sampleRate
+        ? new Resampler(source.sampleRate, format.sampleRate)
+        : null;
+
+    this.sessionInfo = {
+      ...sourceSessionInfo,
+      codec: format.codec,
+      sample_rate: format.sampleRate,
+      channels: format.channels,
+      bit_depth: format.bitDepth,
+      codec_header: this.encoder
+        ? this.encoder.codecHeader
+        : sourceSessionInfo.codec_header,
+    };
+  }
+
+  // Convert and encode planar float audio in the session source format.
+  // Returns null if resampling left nothing to send yet.
+  process(channelData: Float32Array[]): {
+    data: Uint8Array;
+    sampleCount: number;
+  } | null {
+    if (!this.encoder) {
+      throw new Error(`Cannot encode ${this.format.codec} audio`);
+    }
+    let converted = convertChannels(channelData, this.format.channels);
+    if (this.resampler) {
+      converted = this.resampler.process(converted);
+    }
+    if (converted[0].length === 0) {
+      return null;
+    }
+    return {
+      data: this.encoder.encode(converted),
+      sampleCount: converted[0].length,
+    };
+  }
+}
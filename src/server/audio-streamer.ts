@@ -0,0 +1,488 @@
+import { decodePCM, deinterleavePCM } from "../audio/pcm.js";
+import type { TimerHandle } from "../util/clock.js";
+import { EventEmitter } from "../util/event-emitter.js";
+import type { ServerSession } from "./server-session.js";
+
+// A piece of audio in the session format:
+// - Uint8Array (like a Node.js Buffer): interleaved little-endian samples of
+//   the session bit depth, float for pcm_float sessions
+// - Int16Array, Int32Array or Float32Array: interleaved samples, as taken by
+//   ServerSession.sendPCMAudioChunk
+// - Float32Array[]: one array per channel
+export type PCMChunk =
+  | Uint8Array
+  | Int16Array
+  | Int32Array
+  | Float32Array
+  | Float32Array[];
+
+// A single chunk, or a list, iterable or async iterable of chunks. Node.js
+// readable streams are async iterables of Buffers. Note that a single chunk
+// of planar audio has to be wrapped in a list.
+export type PCMSource = PCMChunk | Iterable<PCMChunk> | AsyncIterable<PCMChunk>;
+
+// Opens a source at a position in microseconds, for streamers that can seek
+export type PCMSourceFactory = (position: number) => PCMSource;
+
+export interface AudioStreamerOptions {
+  // Milliseconds of audio per chunk sent, default 50
+  chunkDuration?: number;
+  // Milliseconds audio is sent ahead of its play time, default 1000
+  leadTime?: number;
+  // Milliseconds between starting or resuming and the audio playing, to give
+  // players time to receive it, default 500
+  startDelay?: number;
+}
+
+export type AudioStreamerState =
+  | "idle"
+  | "streaming"
+  | "paused"
+  | "stopped"
+  | "ended";
+
+interface AudioStreamerEvents {
+  // Fired for every chunk sent
+  progress: {
+    // Microseconds of source audio sent
+    position: number;
+    // Server time in microseconds the audio sent so far finishes playing
+    timestamp: number;
+  };
+  // Fired when reading the source failed, the streamer stops
+  error: unknown;
+  // Fired when the source played out or the streamer was stopped
+  end: { stopped: boolean };
+}
+
+interface SentChunk {
+  frame: number;
+  channelData: Float32Array[];
+}
+
+const DEFAULT_OPTIONS: Required<AudioStreamerOptions> = {
+  chunkDuration: 50,
+  leadTime: 1000,
+  startDelay: 500,
+};
+
+// Streams audio from a source into a session at the pace it plays, keeping
+// the configured lead time ahead of playback. Follows the session when it is
+// paused, resumed or seeks; seeking requires a source factory. Publishes the
+// playback position of the source to the players.
+export class AudioStreamer extends EventEmitter<AudioStreamerEvents> {
+  private readonly options: Required<AudioStreamerOptions>;
+  private _state: AudioStreamerState = "idle";
+  private chunks: AsyncGenerator<Float32Array[]> | null = null;
+  // Increases when a seek replaces the source
+  private generation = 0;
+  // Sent audio that has not played yet, to send again after a flush
+  private sent: SentChunk[] = [];
+  // Audio to send before reading on from the source
+  private replay: Float32Array[][] = [];
+  private sentFrames = 0;
+  // The timeline continues from this server time at this frame
+  private anchorTimestamp = 0;
+  private anchorFrame = 0;
+  private timer: TimerHandle | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(
+    private readonly session: ServerSession,
+    private readonly source: PCMSource | PCMSourceFactory,
+    options: AudioStreamerOptions = {},
+  ) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    session.on("session-end", this._handleSessionEnd);
+    session.on("pause", this._handlePause);
+    session.on("resume", this._handleResume);
+    session.on("seek", this._handleSeek);
+  }
+
+  get state(): AudioStreamerState {
+    return this._state;
+  }
+
+  // Microseconds of source audio sent
+  get position(): number {
+    return (this.sentFrames / this.session.sessionInfo.sample_rate) * 1000000;
+  }
+
+  // Server time in microseconds the audio sent so far finishes playing
+  get endTimestamp(): number {
+    return this._timestampOf(this.sentFrames);
+  }
+
+  // Stream the source, resolves when all of it played or the streamer was
+  // stopped. startTime is the server time in microseconds the audio starts
+  // playing, by default startDelay from now.
+  async start(startTime?: number) {
+    if (this._state !== "idle") {
+      throw new Error(`Cannot start a streamer that is ${this._state}`);
+    }
+    this._state = this.session.paused ? "paused" : "streaming";
+    this._anchor(
+      startTime ?? this.session.clock.now() + this.options.startDelay * 1000,
+    );
+    try {
+      this._open(0);
+      this._publishPosition();
+      await this._stream();
+    } catch (error) {
+      this._state = "stopped";
+      this.fire("error", error);
+    }
+
+    const stopped = this.state === "stopped";
+    this._state = stopped ? "stopped" : "ended";
+    this._detach();
+    this.chunks?.return(undefined);
+    this.sent = [];
+    this.replay = [];
+    this.fire("end", { stopped });
+  }
+
+  // Send the source until it played out or the streamer stopped.
+  private async _stream() {
+    for (;;) {
+      await this._waitUntilDue();
+      if (this.state === "stopped") {
+        break;
+      }
+      const generation = this.generation;
+      const fromSource = this.replay.length === 0;
+      const channelData = fromSource
+        ? (await this.chunks!.next()).value || null
+        : this.replay.shift()!;
+      if (generation !== this.generation) {
+        // Read from a source that was replaced by seeking
+        continue;
+      }
+      if (
+        channelData &&
+        fromSource &&
+        (this.replay.length > 0 || this.state !== "streaming")
+      ) {
+        // Paused while reading, the chunk follows the audio to send again
+        this.replay.push(channelData);
+        continue;
+      }
+      if (!channelData) {
+        if (this.state !== "streaming" || this.replay.length > 0) {
+          continue;
+        }
+        // Stay around until the audio played, to send it again when the
+        // session pauses before that
+        const remaining = (this.endTimestamp - this.session.clock.now()) / 1000;
+        if (remaining <= 0) {
+          break;
+        }
+        await this._sleep(remaining);
+        continue;
+      }
+
+      this.session.sendPCMAudioChunk(
+        channelData,
+        Math.round(this._timestampOf(this.sentFrames)),
+      );
+      this._dropPlayed();
+      this.sent.push({ frame: this.sentFrames, channelData });
+      this.sentFrames += channelData[0].length;
+      this.fire("progress", {
+        position: this.position,
+        timestamp: this.endTimestamp,
+      });
+    }
+  }
+
+  // Pause the session, playback stops on all players shortly after.
+  pause() {
+    this.session.pause();
+  }
+
+  resume() {
+    this.session.resume();
+  }
+
+  // Stop sending audio. Audio that was already sent still plays.
+  stop() {
+    this._detach();
+    if (this._state === "streaming" || this._state === "paused") {
+      this._state = "stopped";
+      this._wakeUp();
+    }
+  }
+
+  // Stop following the session
+  private _detach() {
+    this.session.off("session-end", this._handleSessionEnd);
+    this.session.off("pause", this._handlePause);
+    this.session.off("resume", this._handleResume);
+    this.session.off("seek", this._handleSeek);
+  }
+
+  private _handleSessionEnd = () => this.stop();
+
+  private _handlePause = ({ timestamp }: { timestamp: number }) => {
+    if (this._state !== "streaming") {
+      return;
+    }
+    this._state = "paused";
+    this._rewind(timestamp);
+    this._wakeUp();
+  };
+
+  // If audio sent before pausing is still playing the new audio follows it
+  // seamlessly, otherwise it starts after the start delay.
+  private _handleResume = () => {
+    if (this._state !== "paused") {
+      return;
+    }
+    this._state = "streaming";
+    const earliest = this.session.clock.now() + this.options.startDelay * 1000;
+    if (this.endTimestamp < earliest) {
+      this._anchor(earliest);
+    }
+    this._publishPosition();
+    this._wakeUp();
+  };
+
+  private _handleSeek = ({
+    position,
+    timestamp,
+  }: {
+    position: number;
+    timestamp: number;
+  }) => {
+    if (this._state !== "streaming" && this._state !== "paused") {
+      return;
+    }
+    if (typeof this.source !== "function") {
+      // Can't seek, continue where the audio was flushed
+      this._rewind(timestamp);
+    } else {
+      const { sample_rate: sampleRate } = this.session.sessionInfo;
+      this.sentFrames = Math.round((position / 1000000) * sampleRate);
+      this._anchor(timestamp);
+      this._open(position);
+    }
+    this._publishPosition();
+    this._wakeUp();
+  };
+
+  // Read the source from a position in microseconds.
+  private _open(position: number) {
+    this.chunks?.return(undefined);
+    this.generation++;
+    this.sent = [];
+    this.replay = [];
+    this.chunks = this._chunks(
+      typeof this.source === "function" ? this.source(position) : this.source,
+    );
+  }
+
+  // Continue from the audio playing at a timestamp the session flushed from,
+  // sending what was discarded again.
+  private _rewind(timestamp: number) {
+    const { sample_rate: sampleRate } = this.session.sessionInfo;
+    const frame = Math.max(
+      this.anchorFrame,
+      this.anchorFrame +
+        Math.round(((timestamp - this.anchorTimestamp) / 1000000) * sampleRate),
+    );
+    if (frame >= this.sentFrames) {
+      return;
+    }
+    const discarded: Float32Array[][] = [];
+    for (const chunk of this.sent) {
+      const length = chunk.channelData[0].length;
+      if (chunk.frame + length <= frame) {
+        continue;
+      }
+      const offset = Math.max(0, frame - chunk.frame);
+      discarded.push(
+        chunk.channelData.map((channel) => channel.subarray(offset)),
+      );
+    }
+    this.sent = this.sent.filter((chunk) => chunk.frame < frame);
+    this.replay = [...discarded, ...this.replay];
+    this.sentFrames = frame;
+  }
+
+  // Let players know the source position of the next audio and when it
+  // plays
+  private _publishPosition() {
+    this.session.updatePosition(
+      Math.round(this.position),
+      Math.round(this.endTimestamp),
+      this._state === "streaming" ? 1 : 0,
+    );
+  }
+
+  // Forget sent audio that finished playing
+  private _dropPlayed() {
+    const now = this.session.clock.now();
+    this.sent = this.sent.filter(
+      (chunk) =>
+        this._timestampOf(chunk.frame + chunk.channelData[0].length) > now,
+    );
+  }
+
+  private _anchor(timestamp: number) {
+    this.anchorTimestamp = timestamp;
+    this.anchorFrame = this.sentFrames;
+  }
+
+  // Timestamps follow from the sample count, so they don't drift from
+  // rounding chunk durations
+  private _timestampOf(frame: number): number {
+    const { sample_rate: sampleRate } = this.session.sessionInfo;
+    return (
+      this.anchorTimestamp + ((frame - this.anchorFrame) / sampleRate) * 1000000
+    );
+  }
+
+  // Wait until the next chunk is due to be sent, or the streamer stopped.
+  private async _waitUntilDue() {
+    const { clock } = this.session;
+    for (;;) {
+      if (this._state === "paused") {
+        await this._sleep(null);
+        continue;
+      }
+      if (this._state !== "streaming") {
+        return;
+      }
+      const timestamp = this._timestampOf(this.sentFrames);
+      const now = clock.now();
+      if (timestamp < now) {
+        // The source could not keep up, continue after the start delay
+        this._anchor(now + this.options.startDelay * 1000);
+        this._publishPosition();
+        return;
+      }
+      const wait = (timestamp - now) / 1000 - this.options.leadTime;
+      if (wait <= 0) {
+        return;
+      }
+      await this._sleep(wait);
+    }
+  }
+
+  // Sleep for the given milliseconds, or until woken up.
+  private _sleep(delay: number | null): Promise<void> {
+    return new Promise((resolve) => {
+      this.wake = resolve;
+      if (delay !== null) {
+        this.timer = this.session.clock.setTimeout(() => this._wakeUp(), delay);
+      }
+    });
+  }
+
+  private _wakeUp() {
+    if (this.timer !== null) {
+      this.session.clock.clearTimer(this.timer);
+      this.timer = null;
+    }
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+
+  // A source as planar audio in chunks of chunkDuration.
+  private async *_chunks(pcmSource: PCMSource): AsyncGenerator<Float32Array[]> {
+    const {
+      codec,
+      channels,
+      bit_depth: bitDepth,
+      sample_rate: sampleRate,
+    } = this.session.sessionInfo;
+    const chunkFrames = Math.max(
+      1,
+      Math.round((this.options.chunkDuration / 1000) * sampleRate),
+    );
+    const frameBytes = (channels * bitDepth) / 8;
+    let pending: Float32Array[][] = [];
+    let pendingFrames = 0;
+    // Bytes of an incomplete frame at the end of the last byte chunk
+    let leftover = new Uint8Array(0);
+
+    const source: Iterable<PCMChunk> | AsyncIterable<PCMChunk> =
+      ArrayBuffer.isView(pcmSource) ? [pcmSource] : pcmSource;
+
+    for await (const chunk of source) {
+      let channelData: Float32Array[];
+      if (chunk instanceof Uint8Array) {
+        const bytes = new Uint8Array(leftover.length + chunk.length);
+        bytes.set(leftover);
+        bytes.set(chunk, leftover.length);
+        const frames = Math.floor(bytes.length / frameBytes);
+        leftover = bytes.slice(frames * frameBytes);
+        channelData = decodePCM(
+          new DataView(bytes.buffer),
+          channels,
+          frames,
+          bitDepth,
+          codec === "pcm_float",
+        );
+      } else if (Array.isArray(chunk)) {
+        if (chunk.length !== channels) {
+          throw new Error(
+            `Channel mismatch: expected ${channels}, got ${chunk.length}`,
+          );
+        }
+        channelData = chunk;
+      } else {
+        channelData = deinterleavePCM(chunk, channels, bitDepth);
+      }
+      if (channelData[0].length === 0) {
+        continue;
+      }
+
+      pending.push(channelData);
+      pendingFrames += channelData[0].length;
+      while (pendingFrames >= chunkFrames) {
+        const [head, rest] = splitFrames(pending, chunkFrames);
+        pending = rest;
+        pendingFrames -= chunkFrames;
+        yield head;
+      }
+    }
+    if (pendingFrames > 0) {
+      yield splitFrames(pending, pendingFrames)[0];
+    }
+  }
+}
+
+// Take the given number of frames off a list of planar pieces of audio.
+// Returns the taken frames and the remaining pieces.
+function splitFrames(
+  pieces: Float32Array[][],
+  frames: number,
+): [Float32Array[], Float32Array[][]] {
+  const channels = pieces[0].length;
+  const head = Array.from({ length: channels }, () => new Float32Array(frames));
+  let filled = 0;
+  let index = 0;
+  while (filled < frames) {
+    const piece = pieces[index];
+    const count = Math.min(piece[0].length, frames - filled);
+    for (let c = 0; c < channels; c++) {
+      head[c].set(piece[c].subarray(0, count), filled);
+    }
+    filled += count;
+    if (count < piece[0].length) {
+      // Keep the rest of a partially taken piece
+      return [
+        head,
+        [
+          piece.map((channel) => channel.subarray(count)),
+          ...pieces.slice(index + 1),
+        ],
+      ];
+    }
+    index++;
+  }
+  return [head, pieces.slice(index)];
+}
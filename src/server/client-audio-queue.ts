@@ -0,0 +1,149 @@
+import type { ServerClient } from "./server-client.js";
+import type { Clock, TimerHandle } from "../util/clock.js";
+
+// How often to check whether a congested socket drained, in milliseconds
+const CONGESTION_CHECK_INTERVAL = 100;
+
+export interface AudioPacket {
+  data: ArrayBuffer;
+  // Server time in microseconds the packet starts playing
+  timestamp: number;
+  // Play duration in microseconds
+  duration: number;
+}
+
+// What to do with a client whose socket can't keep up:
+// - skip: discard audio until the socket drained, leaving a gap
+// - resync: hold on to audio until the socket drained, then send what can
+//   still be played
+// - drop: disconnect the client
+export type SlowClientPolicy = "skip" | "resync" | "drop";
+
+export interface FlowControlOptions {
+  slowClientPolicy: SlowClientPolicy;
+  // Bytes waiting in the socket above which a client is considered slow
+  maxSocketBuffer: number;
+}
+
+// Sends audio packets to a single client without exceeding the buffer
+// capacity it declared in its hello. Packets that don't fit are held until
+// enough sent audio has played, packets whose play time passed are dropped.
+export class ClientAudioQueue {
+  private queued: AudioPacket[] = [];
+  // Sent packets that have not finished playing
+  private sent: AudioPacket[] = [];
+  private congested = false;
+  private timer: TimerHandle | null = null;
+
+  constructor(
+    private readonly client: ServerClient,
+    private readonly options: FlowControlOptions,
+    private readonly onSlowClient: (bufferedAmount: number) => void,
+    private readonly clock: Clock,
+  ) {}
+
+  // Bytes of audio sent to the client that it has not played yet
+  get unplayedBytes(): number {
+    this._dropPlayed(this.clock.now());
+    return this.sent.reduce(
+      (total, packet) => total + packet.data.byteLength,
+      0,
+    );
+  }
+
+  get isCongested(): boolean {
+    return this.congested;
+  }
+
+  enqueue(packet: AudioPacket) {
+    this.queued.push(packet);
+    this.flush();
+  }
+
+  // Send as many queued packets as the client can take right now.
+  flush() {
+    this._clearTimer();
+    const now = this.clock.now();
+    this._dropPlayed(now);
+    this.queued = this.queued.filter(
+      (packet) => packet.timestamp + packet.duration > now,
+    );
+    if (!this.client.isReady()) {
+      return;
+    }
+
+    const { bufferedAmount } = this.client;
+    if (bufferedAmount > this.options.maxSocketBuffer) {
+      if (!this.congested) {
+        this.congested = true;
+        this.onSlowClient(bufferedAmount);
+      }
+      if (this.options.slowClientPolicy === "skip") {
+        this.queued = [];
+      }
+      if (this.options.slowClientPolicy !== "drop") {
+        this._schedule(CONGESTION_CHECK_INTERVAL);
+      }
+      return;
+    }
+    this.congested = false;
+
+    const capacity = this.client.playerInfo?.buffer_capacity ?? Infinity;
+    let unplayed = this.sent.reduce(
+      (total, packet) => total + packet.data.byteLength,
+      0,
+    );
+    while (this.queued.length > 0) {
+      const packet = this.queued[0];
+      // Always allow a single packet, even if it exceeds a tiny capacity
+      if (
+        this.sent.length > 0 &&
+        unplayed + packet.data.byteLength > capacity
+      ) {
+        // Try again once the oldest sent packet has played
+        const { timestamp, duration } = this.sent[0];
+        this._schedule((timestamp + duration - now) / 1000);
+        return;
+      }
+      this.client.sendBinary(packet.data);
+      this.sent.push(packet);
+      unplayed += packet.data.byteLength;
+      this.queued.shift();
+    }
+  }
+
+  // Forget audio still playing at the given server time, which the client
+  // was told to flush. Sent packets no longer count against its capacity.
+  discardFrom(timestamp: number) {
+    const playsBefore = (packet: AudioPacket) =>
+      packet.timestamp + packet.duration <= timestamp;
+    this.queued = this.queued.filter(playsBefore);
+    this.sent = this.sent.filter((packet) => packet.timestamp < timestamp);
+  }
+
+  close() {
+    this._clearTimer();
+    this.queued = [];
+    this.sent = [];
+  }
+
+  private _dropPlayed(now: number) {
+    this.sent = this.sent.filter(
+      (packet) => packet.timestamp + packet.duration > now,
+    );
+  }
+
+  private _schedule(delay: number) {
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, Math.max(0, delay));
+  }
+
+  private _clearTimer() {
+    if (this.timer) {
+      this.clock.clearTimer(this.timer);
+      this.timer = null;
+    }
+  }
+}
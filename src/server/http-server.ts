@@ -1,30 +1,74 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
 import { WebSocketServer, WebSocket } from "ws";
 import type { Logger } from "../logging.js";
 import { MusicServer } from "./music-server.js";
-import { ServerClient } from "./server-client.js";
+import { HeartbeatOptions, ServerClient } from "./server-client.js";
+import { WebSocketTransport } from "./websocket-transport.js";
 
 export class HTTPServer {
   private websocketServer: WebSocketServer | null = null;
+  // HTTP server we attached to and our upgrade handler on it
+  private attached: {
+    server: Server;
+    onUpgrade: (request: IncomingMessage, socket: Duplex, head: Buffer) => void;
+  } | null = null;
 
   constructor(
     private musicServer: MusicServer,
+    // Port to listen on when started, not used when attached
     public port: number,
     private logger: Logger = console,
+    // Detects connections that died without closing, false to disable
+    private heartbeat: HeartbeatOptions | false = {},
   ) {}
 
   // Start the WebSocket server
   start() {
     this.websocketServer = new WebSocketServer({ port: this.port });
     this.logger.log(`WebSocket server started on port ${this.port}`);
+    this._listen(this.websocketServer);
+  }
 
-    this.websocketServer.on("connection", this.handleConnection.bind(this));
-    this.websocketServer.on("error", (error) => {
+  // Accept WebSocket connections on the given path of an existing HTTP
+  // server instead of starting our own. Upgrade requests for other paths are
+  // left to other handlers.
+  attach(server: Server, path: string = "/") {
+    const websocketServer = new WebSocketServer({ noServer: true });
+    const onUpgrade = (
+      request: IncomingMessage,
+      socket: Duplex,
+      head: Buffer,
+    ) => {
+      const { pathname } = new URL(request.url ?? "/", "http://localhost");
+      if (pathname !== path) {
+        return;
+      }
+      websocketServer.handleUpgrade(request, socket, head, (ws) => {
+        websocketServer.emit("connection", ws, request);
+      });
+    };
+    server.on("upgrade", onUpgrade);
+    this.websocketServer = websocketServer;
+    this.attached = { server, onUpgrade };
+    this.logger.log(`WebSocket server attached at ${path}`);
+    this._listen(websocketServer);
+  }
+
+  private _listen(websocketServer: WebSocketServer) {
+    websocketServer.on("connection", this.handleConnection.bind(this));
+    websocketServer.on("error", (error) => {
       this.logger.error("WebSocket server error:", error);
     });
   }
 
   handleConnection(ws: WebSocket, request: any) {
-    const playerClient = new ServerClient(ws, this.logger);
+    const playerClient = new ServerClient(
+      new WebSocketTransport(ws),
+      this.logger,
+      this.heartbeat,
+      this.musicServer.clock,
+    );
     this.musicServer.addClient(playerClient);
   }
 
@@ -32,6 +76,10 @@ export class HTTPServer {
   stop() {
     this.musicServer.stop();
 
+    if (this.attached) {
+      this.attached.server.off("upgrade", this.attached.onUpgrade);
+      this.attached = null;
+    }
     if (this.websocketServer) {
       this.websocketServer.close(() => {
         this.logger.log("WebSocket server closed");
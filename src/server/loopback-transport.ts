@@ -0,0 +1,173 @@
+import type {
+  WebSocketConstructor,
+  WebSocketEvents,
+  WebSocketLike,
+} from "../websocket.js";
+import { EventEmitter } from "../util/event-emitter.js";
+import { Clock, systemClock } from "../util/clock.js";
+import type { Transport, TransportEvents } from "./transport.js";
+
+// WebSocket readyState values
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+// Close code of a connection that was dropped without a closing handshake
+const ABNORMAL_CLOSURE = 1006;
+
+// Server end of an in-memory connection.
+export class LoopbackTransport
+  extends EventEmitter<TransportEvents>
+  implements Transport
+{
+  public readonly bufferedAmount = 0;
+  private closed = false;
+
+  constructor(
+    private readonly peer: LoopbackSocket,
+    private readonly clock: Clock,
+  ) {
+    super();
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(data: string | ArrayBuffer) {
+    if (this.closed) {
+      throw new Error("Connection closed");
+    }
+    // Copy binary data so the receiver doesn't share it with the sender
+    const message = typeof data === "string" ? data : data.slice(0);
+    this._deliver(() => this.peer._receive(message));
+  }
+
+  ping() {
+    this._deliver(() => {
+      if (!this.closed) {
+        this.fire("pong");
+      }
+    });
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.closed) {
+      return;
+    }
+    this._closed(code, reason);
+    this._deliver(() => this.peer._closed(code, reason));
+  }
+
+  terminate() {
+    this.close(ABNORMAL_CLOSURE);
+  }
+
+  _receive(data: string) {
+    if (!this.closed) {
+      this.fire("message", data);
+    }
+  }
+
+  _closed(code: number, reason: string) {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.fire("close", { code, reason });
+  }
+
+  // Like a network, deliver asynchronously and in order
+  private _deliver(callback: () => void) {
+    this.clock.setTimeout(callback, 0);
+  }
+}
+
+// Player end of an in-memory connection, usable as the WebSocket of a Client.
+export class LoopbackSocket implements WebSocketLike {
+  public binaryType = "arraybuffer";
+  public readyState = CONNECTING;
+  public readonly transport: LoopbackTransport;
+  private listeners: {
+    [K in keyof WebSocketEvents]?: Array<(event: WebSocketEvents[K]) => void>;
+  } = {};
+
+  // Messages are delivered by timers of the clock, pass a FakeClock to
+  // control when
+  constructor(private readonly clock: Clock = systemClock) {
+    this.transport = new LoopbackTransport(this, clock);
+    this._deliver(() => {
+      if (this.readyState === CONNECTING) {
+        this.readyState = OPEN;
+        this._dispatch("open", {});
+      }
+    });
+  }
+
+  addEventListener<K extends keyof WebSocketEvents>(
+    type: K,
+    listener: (event: WebSocketEvents[K]) => void,
+  ) {
+    if (!this.listeners[type]) {
+      this.listeners[type] = [];
+    }
+    this.listeners[type]!.push(listener);
+  }
+
+  send(data: string) {
+    if (this.readyState !== OPEN) {
+      throw new Error("Connection not open");
+    }
+    this._deliver(() => this.transport._receive(data));
+  }
+
+  close(code = 1000, reason = "") {
+    if (this.readyState === CLOSED) {
+      return;
+    }
+    this._closed(code, reason);
+    this._deliver(() => this.transport._closed(code, reason));
+  }
+
+  _receive(data: string | ArrayBuffer) {
+    if (this.readyState === OPEN) {
+      this._dispatch("message", { data });
+    }
+  }
+
+  _closed(code: number, reason: string) {
+    if (this.readyState === CLOSED) {
+      return;
+    }
+    this.readyState = CLOSED;
+    this._dispatch("close", { code, reason });
+  }
+
+  private _dispatch<K extends keyof WebSocketEvents>(
+    type: K,
+    event: WebSocketEvents[K],
+  ) {
+    for (const listener of this.listeners[type] ?? []) {
+      listener(event);
+    }
+  }
+
+  private _deliver(callback: () => void) {
+    this.clock.setTimeout(callback, 0);
+  }
+}
+
+// WebSocket class to pass to a Client to connect it to a server in the same
+// process. onConnection receives the server end of every connection made,
+// the URL is ignored. Messages are delivered by timers of the clock.
+export function createLoopbackWebSocket(
+  onConnection: (transport: Transport) => void,
+  clock: Clock = systemClock,
+): WebSocketConstructor {
+  return class extends LoopbackSocket {
+    constructor(url: string) {
+      super(clock);
+      onConnection(this.transport);
+    }
+  };
+}
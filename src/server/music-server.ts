@@ -1,19 +1,36 @@
 import { ServerClient } from "./server-client.js";
 import type { Logger } from "../logging.js";
-import type { ServerInfo } from "../messages.js";
+import { CloseCode, ServerInfo } from "../messages.js";
 import { EventEmitter } from "../util/event-emitter.js";
+import { Clock, systemClock } from "../util/clock.js";
 import { ServerGroup } from "./server-group.js";
 
 interface MusicServerEvents {
   "client-added": ServerClient;
   "client-removed": ServerClient;
+  // A client stopped responding and is being disconnected
+  "client-stale": ServerClient;
 }
 
+// What to do when a player connects while a connection with the same
+// player_id exists: replace closes the old connection, reject the new one
+export type DuplicatePlayerPolicy = "replace" | "reject";
+
 export class MusicServer extends EventEmitter<MusicServerEvents> {
+  // Connected clients by player_id
   private clients: Map<string, ServerClient> = new Map();
   private groups: Array<ServerGroup> = [];
+  // Group of each player by player_id, kept across disconnects so players
+  // return to their group when they reconnect
+  private memberships: Map<string, ServerGroup> = new Map();
+  public duplicatePlayerPolicy: DuplicatePlayerPolicy = "replace";
 
-  constructor(private serverInfo: ServerInfo, private logger: Logger) {
+  constructor(
+    private serverInfo: ServerInfo,
+    private logger: Logger,
+    // Time base of the server, the clock players synchronize with
+    public readonly clock: Clock = systemClock,
+  ) {
     super();
   }
 
@@ -22,21 +39,52 @@ export class MusicServer extends EventEmitter<MusicServerEvents> {
       await client.accept(this.serverInfo);
     } catch (error) {
       this.logger.error(`Error adding client ${client.clientId}:`, error);
-      client.socket.close(1008, "Invalid client");
+      client.transport.close(CloseCode.PolicyViolation, "Invalid client");
       return;
     }
+    // Equal to the client ID from now on
+    const playerId = client.playerInfo!.player_id;
+
+    const existing = this.clients.get(playerId);
+    if (existing) {
+      if (this.duplicatePlayerPolicy === "reject") {
+        this.logger.error(`Player ${playerId} is already connected`);
+        client.transport.close(
+          CloseCode.DuplicatePlayer,
+          "Player already connected",
+        );
+        return;
+      }
+      this.logger.log(`Player ${playerId} reconnected, closing old connection`);
+      this._removeClient(existing);
+      existing.transport.close(
+        CloseCode.Replaced,
+        "Replaced by new connection",
+      );
+    }
+
     this.logger.log(`Client ${client.clientId} accepted`);
 
-    this.clients.set(client.clientId, client);
+    this.clients.set(playerId, client);
+
+    const previousGroup = this.memberships.get(playerId);
+    if (previousGroup && this.groups.includes(previousGroup)) {
+      this.logger.log(
+        `Client ${client.clientId} rejoined group ${previousGroup.groupId}`,
+      );
+      // Also starts streaming any active session to the client
+      previousGroup.addClient(client);
+    }
+
+    client.on("stale", () => {
+      this.fire("client-stale", client);
+    });
 
     client.on("close", () => {
-      this.clients.delete(client.clientId);
-      for (const group of this.groups) {
-        if (group.clients.has(client.clientId)) {
-          group.removeClient(client.clientId);
-        }
+      // Already gone if a newer connection replaced this one
+      if (this.clients.get(playerId) === client) {
+        this._removeClient(client);
       }
-      this.fire("client-removed", client);
     });
 
     client.on("group-command", (command) => {
@@ -44,6 +92,7 @@ export class MusicServer extends EventEmitter<MusicServerEvents> {
         for (const group of this.groups) {
           if (group.clients.has(client.clientId)) {
             group.removeClient(client.clientId);
+            this.memberships.delete(playerId);
             this.logger.log(
               `Client ${client.clientId} unjoined group ${group.groupId}`,
             );
@@ -54,6 +103,7 @@ export class MusicServer extends EventEmitter<MusicServerEvents> {
         const group = this.groups.find((g) => g.groupId === command.groupId);
         if (group) {
           group.addClient(client);
+          this.memberships.set(playerId, group);
           this.logger.log(
             `Client ${client.clientId} joined group ${group.groupId}`,
           );
@@ -68,7 +118,11 @@ export class MusicServer extends EventEmitter<MusicServerEvents> {
           payload: {
             groups: this.groups.map((g) => ({
               groupId: g.groupId,
-              state: g.activeSession ? "playing" : "idle",
+              state: !g.activeSession
+                ? "idle"
+                : g.activeSession.paused
+                ? "paused"
+                : "playing",
             })),
           },
         });
@@ -78,8 +132,19 @@ export class MusicServer extends EventEmitter<MusicServerEvents> {
     this.fire("client-added", client);
   }
 
+  // Forget a connection, group memberships are kept for when it returns
+  private _removeClient(client: ServerClient) {
+    this.clients.delete(client.clientId);
+    for (const group of this.groups) {
+      if (group.clients.get(client.clientId) === client) {
+        group.removeClient(client.clientId);
+      }
+    }
+    this.fire("client-removed", client);
+  }
+
   public createGroup(): ServerGroup {
-    const group = new ServerGroup(this.logger);
+    const group = new ServerGroup(this.logger, this.clock);
     this.groups.push(group);
     return group;
   }
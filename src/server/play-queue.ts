@@ -0,0 +1,219 @@
+import type { QueueItemInfo, RepeatMode } from "../messages.js";
+import { EventEmitter } from "../util/event-emitter.js";
+import { generateUniqueId } from "../util/unique-id.js";
+
+// An item of the queue. Its metadata is sent to players while it is the
+// current item, data is whatever the server needs to play it (a file name,
+// a URL, ...) and is not sent.
+export interface QueueItem<T = unknown> extends QueueItemInfo {
+  year: number | null;
+  track: number | null;
+  data: T;
+}
+
+export type NewQueueItem<T = unknown> = Partial<Omit<QueueItem<T>, "id">> &
+  Pick<QueueItem<T>, "data">;
+
+interface PlayQueueEvents<T> {
+  // The items, their order, the current item or the play mode changed
+  update: void;
+  // Playback should (re)start with this item, null when playback ran off the
+  // end or the queue was emptied
+  "current-change": QueueItem<T> | null;
+}
+
+// The items a group plays, in play order. Shuffling reorders the items after
+// the current one, turning shuffle off restores the order they were added in.
+export class PlayQueue<T = unknown> extends EventEmitter<PlayQueueEvents<T>> {
+  private _items: QueueItem<T>[] = [];
+  // Items in the order they were added, kept while shuffled
+  private _unshuffled: QueueItem<T>[] | null = null;
+  private _current: QueueItem<T> | null = null;
+  private _repeat: RepeatMode = "off";
+
+  constructor(private readonly random: () => number = Math.random) {
+    super();
+  }
+
+  // Items in play order
+  get items(): readonly QueueItem<T>[] {
+    return this._items;
+  }
+
+  get current(): QueueItem<T> | null {
+    return this._current;
+  }
+
+  // Index of the current item in play order, null if there is none
+  get currentIndex(): number | null {
+    return this._current ? this._items.indexOf(this._current) : null;
+  }
+
+  get repeat(): RepeatMode {
+    return this._repeat;
+  }
+
+  set repeat(repeat: RepeatMode) {
+    if (repeat !== this._repeat) {
+      this._repeat = repeat;
+      this.fire("update");
+    }
+  }
+
+  get shuffle(): boolean {
+    return this._unshuffled !== null;
+  }
+
+  set shuffle(shuffle: boolean) {
+    if (shuffle === this.shuffle) {
+      return;
+    }
+    if (shuffle) {
+      this._unshuffled = [...this._items];
+      this._shuffle(this._current);
+    } else {
+      this._items = this._unshuffled!;
+      this._unshuffled = null;
+    }
+    this.fire("update");
+  }
+
+  // Add an item at an index in play order, by default at the end. The first
+  // item added becomes current.
+  add(item: NewQueueItem<T>, index: number = this._items.length): QueueItem<T> {
+    const queueItem: QueueItem<T> = {
+      title: null,
+      artist: null,
+      album: null,
+      year: null,
+      track: null,
+      duration: null,
+      ...item,
+      id: generateUniqueId("item"),
+    };
+    this._items.splice(this._clampIndex(index), 0, queueItem);
+    this._unshuffled?.push(queueItem);
+    if (this._current) {
+      this.fire("update");
+    } else {
+      this._setCurrent(queueItem);
+    }
+    return queueItem;
+  }
+
+  // Remove an item. If it was current, the item after it becomes current,
+  // like when skipping to the next item.
+  remove(id: string) {
+    const index = this._indexOf(id);
+    const [item] = this._items.splice(index, 1);
+    this._unshuffled = this._unshuffled?.filter((i) => i !== item) ?? null;
+    if (item === this._current) {
+      const wrap = this._repeat === "all" ? this._items[0] : undefined;
+      this._setCurrent(this._items[index] ?? wrap ?? null);
+    } else {
+      this.fire("update");
+    }
+  }
+
+  // Move an item to another index in play order.
+  move(id: string, index: number) {
+    const [item] = this._items.splice(this._indexOf(id), 1);
+    this._items.splice(this._clampIndex(index), 0, item);
+    this.fire("update");
+  }
+
+  clear() {
+    this._items = [];
+    if (this._unshuffled) {
+      this._unshuffled = [];
+    }
+    if (this._current) {
+      this._setCurrent(null);
+    } else {
+      this.fire("update");
+    }
+  }
+
+  // Play the item at an index in play order.
+  jump(index: number) {
+    const item = this._items[index];
+    if (!item) {
+      throw new Error(`No queue item at index ${index}`);
+    }
+    this._setCurrent(item);
+  }
+
+  // Skip to the next item, wrapping around when repeating all.
+  next() {
+    const index = this.currentIndex;
+    if (index === null) {
+      return;
+    }
+    if (index + 1 < this._items.length) {
+      this._setCurrent(this._items[index + 1]);
+    } else if (this._repeat === "all") {
+      if (this.shuffle) {
+        // A new round in a new order
+        this._shuffle(null);
+      }
+      this._setCurrent(this._items[0]);
+    } else {
+      this._setCurrent(null);
+    }
+  }
+
+  // Go back to the previous item, wrapping around when repeating all.
+  // Restarts the first item otherwise.
+  previous() {
+    const index = this.currentIndex;
+    if (index === null) {
+      return;
+    }
+    if (index > 0) {
+      this._setCurrent(this._items[index - 1]);
+    } else if (this._repeat === "all") {
+      this._setCurrent(this._items[this._items.length - 1]);
+    } else {
+      this._setCurrent(this._items[0]);
+    }
+  }
+
+  // Continue after the current item finished playing: repeats it when
+  // repeating one, skips to the next item otherwise.
+  advance() {
+    if (this._repeat === "one" && this._current) {
+      this._setCurrent(this._current);
+    } else {
+      this.next();
+    }
+  }
+
+  // Fisher-Yates shuffle of the items, keeping first at the front.
+  private _shuffle(first: QueueItem<T> | null) {
+    const rest = this._items.filter((item) => item !== first);
+    for (let i = rest.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [rest[i], rest[j]] = [rest[j], rest[i]];
+    }
+    this._items = first ? [first, ...rest] : rest;
+  }
+
+  private _setCurrent(item: QueueItem<T> | null) {
+    this._current = item;
+    // First, so update listeners already know playback restarts
+    this.fire("current-change", item);
+    this.fire("update");
+  }
+
+  private _indexOf(id: string): number {
+    const index = this._items.findIndex((item) => item.id === id);
+    if (index === -1) {
+      throw new Error(`No queue item with id ${id}`);
+    }
+    return index;
+  }
+
+  private _clampIndex(index: number): number {
+    return Math.max(0, Math.min(this._items.length, index));
+  }
+}
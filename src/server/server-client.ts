@@ -1,19 +1,74 @@
-import { WebSocket } from "ws";
-import type {
+import {
   PlayerInfo,
   ServerMessages,
   ClientMessages,
   PlayerState,
+  PlayerSyncInfo,
   StreamCommandMessage,
   ServerInfo,
+  CloseCode,
+  ProtocolErrorCode,
+  ProtocolFeature,
+  PlayerVolumeMessage,
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  MESSAGE_VERSIONS,
+  isMessageSupported,
+  isCommandSupported,
 } from "../messages.js";
 import type { Logger } from "../logging.js";
 import { generateUniqueId } from "../util/unique-id.js";
 import { EventEmitter } from "../util/event-emitter.js";
+import { Clock, TimerHandle, systemClock } from "../util/clock.js";
+import { ProtocolError, parseClientMessage } from "../message-validation.js";
+import type { Transport } from "./transport.js";
+
+// Features of the protocol this server supports, announced in the hello
+const SERVER_FEATURES: ProtocolFeature[] = ["sync-report"];
+
+// Clients sending more invalid messages than this are disconnected
+const MAX_INVALID_MESSAGES = 10;
+
+// WebSocket close reasons can be at most this many bytes of UTF-8
+const MAX_CLOSE_REASON_BYTES = 123;
+
+function truncateCloseReason(reason: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(reason).length <= MAX_CLOSE_REASON_BYTES) {
+    return reason;
+  }
+  let truncated = "";
+  let bytes = 0;
+  // By code point, so characters are not cut in half
+  for (const char of reason) {
+    bytes += encoder.encode(char).length;
+    if (bytes > MAX_CLOSE_REASON_BYTES) {
+      break;
+    }
+    truncated += char;
+  }
+  return truncated;
+}
+
+export interface HeartbeatOptions {
+  // Milliseconds between pings, default 5000
+  interval?: number;
+  // Milliseconds without any sign of life after which the connection is
+  // considered dead, default 15000
+  timeout?: number;
+}
+
+const DEFAULT_HEARTBEAT_OPTIONS: Required<HeartbeatOptions> = {
+  interval: 5000,
+  timeout: 15000,
+};
 
 export interface ServerClientEvents {
-  close: void;
+  close: { code: number; reason: string };
+  // The client stopped answering heartbeats and is being disconnected
+  stale: void;
   "player-state": PlayerState | null;
+  "player-sync": PlayerSyncInfo;
   "stream-command": StreamCommandMessage["payload"];
   "group-command":
     | {
@@ -26,57 +81,189 @@ export interface ServerClientEvents {
 }
 
 export class ServerClient extends EventEmitter<ServerClientEvents> {
+  // Random until the player said hello, its player_id after
   public clientId: string;
   public playerInfo: PlayerInfo | null = null;
   public playerState: PlayerState | null = null;
-  private _playerInfoReceived?: (value: unknown) => void;
+  public syncInfo: PlayerSyncInfo | null = null;
+  // Protocol version agreed on with the player, null until its hello
+  public protocolVersion: number | null = null;
+  private _playerInfoReceived?: {
+    resolve: (playerInfo: PlayerInfo) => void;
+    reject: (err: Error) => void;
+  };
+  private _heartbeatInterval: TimerHandle | null = null;
+  // Time in microseconds of the last message or pong from the client
+  private _lastSeen: number;
+  private _staleReason: string | null = null;
+  private _invalidMessages = 0;
 
   constructor(
-    public readonly socket: WebSocket,
+    public readonly transport: Transport,
     private readonly logger: Logger,
+    heartbeat: HeartbeatOptions | false = {},
+    private readonly clock: Clock = systemClock,
   ) {
     super();
+    this._lastSeen = this.clock.now();
     this.clientId = generateUniqueId("client");
     this.logger.log(`Client ${this.clientId} connected`);
-    this.socket.on("message", this.handleMessage.bind(this));
-    this.socket.on("close", () => {
+    this.transport.on("message", this.handleMessage.bind(this));
+    this.transport.on("pong", () => {
+      this._lastSeen = this.clock.now();
+    });
+    this.transport.on("close", ({ code, reason }) => {
+      this._stopHeartbeat();
+      this._playerInfoReceived?.reject(
+        new Error("Connection closed before player hello"),
+      );
+      this._playerInfoReceived = undefined;
       this.logger.log(`Client ${this.clientId} disconnected`);
-      this.fire("close");
+      // A terminated connection doesn't tell why, report our own reason
+      this.fire(
+        "close",
+        this._staleReason
+          ? { code: CloseCode.HeartbeatTimeout, reason: this._staleReason }
+          : { code, reason },
+      );
     });
-    this.socket.on("error", (error) => {
+    this.transport.on("error", (error) => {
       this.logger.error(`Client ${this.clientId} error:`, error);
     });
+    if (heartbeat !== false) {
+      this._startHeartbeat({ ...DEFAULT_HEARTBEAT_OPTIONS, ...heartbeat });
+    }
   }
 
-  private handleMessage(message: any, isBinary: boolean) {
-    if (isBinary) {
+  private _startHeartbeat({ interval, timeout }: Required<HeartbeatOptions>) {
+    this._heartbeatInterval = this.clock.setInterval(() => {
+      if (this.clock.now() - this._lastSeen <= timeout * 1000) {
+        if (this.isReady()) {
+          this.transport.ping();
+        }
+        return;
+      }
+      this._stopHeartbeat();
+      this._staleReason = "Heartbeat timeout";
       this.logger.error(
-        `Client ${this.clientId} received unexpected binary message`,
+        `Client ${this.clientId} did not respond for ${timeout}ms, disconnecting`,
+      );
+      this.fire("stale");
+      // Try to tell the client, but don't wait for a peer that is likely gone
+      this.transport.close(CloseCode.HeartbeatTimeout, this._staleReason);
+      this.transport.terminate();
+    }, interval);
+  }
+
+  private _stopHeartbeat() {
+    if (this._heartbeatInterval) {
+      this.clock.clearTimer(this._heartbeatInterval);
+      this._heartbeatInterval = null;
+    }
+  }
+
+  private handleMessage(message: string | Uint8Array) {
+    // Taken before parsing so time sync replies don't include our own delay
+    const receivedAt = this.clock.now();
+    this._lastSeen = this.clock.now();
+    if (typeof message !== "string") {
+      this._rejectMessage(
+        "unsupported_data",
+        "Players cannot send binary messages",
+        CloseCode.UnsupportedData,
+      );
+      return;
+    }
+
+    let parsed: ClientMessages | null;
+    try {
+      parsed = parseClientMessage(message);
+    } catch (err) {
+      if (!(err instanceof ProtocolError)) {
+        throw err;
+      }
+      // Without a valid hello we don't know who we're talking to
+      this._rejectMessage(
+        err.code,
+        err.message,
+        this.playerInfo ? null : CloseCode.ProtocolError,
       );
       return;
     }
+    if (!parsed) {
+      // From a newer version of the protocol
+      this.logger.log(
+        `Ignoring message of unknown type from ${this.clientId}:`,
+        message,
+      );
+      return;
+    }
+
     try {
-      this.processMessage(JSON.parse(message.toString()));
+      this.processMessage(parsed, receivedAt);
     } catch (err) {
       this.logger.error(`Error handling message from ${this.clientId}:`, err);
-      this.socket.close(1, "error handling message");
+      this.transport.close(CloseCode.InternalError, "error handling message");
     }
   }
 
-  private processMessage(message: ClientMessages) {
+  // Tell the client what was wrong with its message. Closes the connection
+  // with closeCode if given, or when the client keeps sending bad messages.
+  private _rejectMessage(
+    code: ProtocolErrorCode,
+    message: string,
+    closeCode: CloseCode | null = null,
+  ) {
+    this.logger.error(`Invalid message from ${this.clientId}: ${message}`);
+    if (!this.isReady()) {
+      return;
+    }
+    // Players before version 2 have no error message, they only learn what
+    // went wrong from the close reason
+    this.send({ type: "error", payload: { code, message } });
+    this._invalidMessages++;
+    if (closeCode === null && this._invalidMessages > MAX_INVALID_MESSAGES) {
+      closeCode = CloseCode.PolicyViolation;
+      message = "Too many invalid messages";
+    }
+    if (closeCode !== null) {
+      this.transport.close(closeCode, truncateCloseReason(message));
+    }
+  }
+
+  private processMessage(message: ClientMessages, receivedAt: number) {
     if (message.type === "player/hello") {
+      const version = message.payload.version ?? 1;
+      const protocolVersion = Math.min(version, PROTOCOL_VERSION);
+      if (protocolVersion < MIN_PROTOCOL_VERSION) {
+        const reason = `Protocol version ${version} is not supported, need ${MIN_PROTOCOL_VERSION} to ${PROTOCOL_VERSION}`;
+        this._rejectMessage(
+          "unsupported_version",
+          reason,
+          CloseCode.ProtocolError,
+        );
+        this._playerInfoReceived?.reject(new Error(reason));
+        this._playerInfoReceived = undefined;
+        return;
+      }
+      this.protocolVersion = protocolVersion;
       this.playerInfo = message.payload;
-      this.logger.log("Client info received:", message.payload);
+      this.clientId = message.payload.player_id;
+      this.logger.log(
+        `Client info received, using protocol version ${protocolVersion}:`,
+        message.payload,
+      );
       if (this._playerInfoReceived) {
-        this._playerInfoReceived(message.payload);
+        this._playerInfoReceived.resolve(message.payload);
         this._playerInfoReceived = undefined;
       }
       return;
     }
 
     if (!this.playerInfo) {
-      this.logger.error(
-        `Client ${this.clientId} sent message before player hello`,
+      this._rejectMessage(
+        "unexpected_message",
+        `Received ${message.type} before player/hello`,
       );
       return;
     }
@@ -114,15 +301,21 @@ export class ServerClient extends EventEmitter<ServerClientEvents> {
           type: "source/time" as const,
           payload: {
             player_transmitted: message.payload.player_transmitted,
-            source_received: Math.round(
-              (performance.timeOrigin + performance.now()) * 1000,
-            ),
-            source_transmitted: Math.round(
-              (performance.timeOrigin + performance.now()) * 1000,
-            ),
+            source_received: receivedAt,
+            source_transmitted: this.clock.now(),
           },
         });
         break;
+      case "player/sync":
+        this.syncInfo = message.payload;
+        this.fire("player-sync", message.payload);
+        break;
+      case "error":
+        this.logger.error(
+          `Client ${this.clientId} reported a protocol error:`,
+          message.payload,
+        );
+        break;
       default:
         this.logger.log(
           `Unhandled message type from ${this.clientId}:`,
@@ -133,35 +326,112 @@ export class ServerClient extends EventEmitter<ServerClientEvents> {
   }
 
   public async accept(serverInfo: ServerInfo) {
-    await new Promise((resolve) => {
+    await new Promise<PlayerInfo>((resolve, reject) => {
       this.send({
         type: "source/hello" as const,
-        payload: serverInfo,
+        payload: {
+          ...serverInfo,
+          version: PROTOCOL_VERSION,
+          features: SERVER_FEATURES,
+        },
       });
       if (this.playerInfo) {
         resolve(this.playerInfo);
       } else {
-        this._playerInfoReceived = resolve;
+        this._playerInfoReceived = { resolve, reject };
       }
     });
   }
 
-  public send(message: ServerMessages) {
-    if (this.socket.readyState !== WebSocket.OPEN) {
+  // Whether the player announced support for an optional protocol feature
+  public supportsFeature(feature: ProtocolFeature): boolean {
+    return this.playerInfo?.features?.includes(feature) ?? false;
+  }
+
+  // Ask the player to change its volume (0-100). The new state is reported
+  // through the player-state event once the player applied it. Returns false
+  // for players that did not announce the volume feature, they are left
+  // alone.
+  public setVolume(volume: number): boolean {
+    return this._sendVolume({
+      volume: Math.max(0, Math.min(100, Math.round(volume))),
+    });
+  }
+
+  public setMuted(muted: boolean): boolean {
+    return this._sendVolume({ muted });
+  }
+
+  private _sendVolume(payload: PlayerVolumeMessage["payload"]): boolean {
+    if (!this.supportsFeature("volume")) {
+      this.logger.log(
+        `Client ${this.clientId} does not support volume, not changing it`,
+      );
+      return false;
+    }
+    return this.send({ type: "player/volume", payload });
+  }
+
+  // Send a message to the player. Messages introduced in a later protocol
+  // version than the player talks are dropped, returns whether it was sent.
+  public send(message: ServerMessages): boolean {
+    if (!this.transport.isOpen) {
       throw new Error("Client not connected");
     }
-    this.socket.send(JSON.stringify(message));
+    if (
+      this.protocolVersion !== null &&
+      !isMessageSupported(message.type, this.protocolVersion)
+    ) {
+      this.logger.log(
+        `Dropped ${message.type} for ${
+          this.clientId
+        }, it needs protocol version ${
+          MESSAGE_VERSIONS[message.type]
+        } and the client talks ${this.protocolVersion}`,
+      );
+      return false;
+    }
+    message = this._forProtocolVersion(message);
+    this.transport.send(JSON.stringify(message));
     this.logger.log(`Sent to ${this.clientId}:`, message);
+    return true;
+  }
+
+  // Leave out the media commands the player's protocol version doesn't have,
+  // older players reject metadata announcing them
+  private _forProtocolVersion(message: ServerMessages): ServerMessages {
+    const protocolVersion = this.protocolVersion;
+    if (
+      protocolVersion === null ||
+      message.type !== "metadata/update" ||
+      !message.payload.support_commands
+    ) {
+      return message;
+    }
+    return {
+      ...message,
+      payload: {
+        ...message.payload,
+        support_commands: message.payload.support_commands.filter((command) =>
+          isCommandSupported(command, protocolVersion),
+        ),
+      },
+    };
   }
 
   public sendBinary(data: ArrayBuffer) {
-    if (this.socket.readyState !== WebSocket.OPEN) {
+    if (!this.transport.isOpen) {
       throw new Error("Client not connected");
     }
-    this.socket.send(data);
+    this.transport.send(data);
+  }
+
+  // Bytes queued on the connection that have not been sent yet
+  get bufferedAmount(): number {
+    return this.transport.bufferedAmount;
   }
 
   isReady(): boolean {
-    return this.socket.readyState === WebSocket.OPEN;
+    return this.transport.isOpen;
   }
 }
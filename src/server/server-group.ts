@@ -1,9 +1,19 @@
 import { Logger } from "../logging.js";
-import { SessionInfo } from "../messages.js";
+import {
+  MediaCommand,
+  QueueUpdateMessage,
+  SessionInfo,
+  StreamCommandMessage,
+} from "../messages.js";
 import { EventEmitter } from "../util/event-emitter.js";
 import { generateUniqueId } from "../util/unique-id.js";
+import { Clock, systemClock } from "../util/clock.js";
 import { ServerClient } from "./server-client.js";
 import { ServerSession } from "./server-session.js";
+import { PlayQueue, QueueItem } from "./play-queue.js";
+
+// Commands the group handles itself, using its queue
+const QUEUE_COMMANDS: MediaCommand[] = ["next", "previous", "jump"];
 
 interface ServerGroupEvents {
   "client-added": ServerClient;
@@ -16,18 +26,46 @@ export class ServerGroup extends EventEmitter<ServerGroupEvents> {
   public clients: Map<string, ServerClient> = new Map();
   public activeSession: ServerSession | null = null;
   public groupId = generateUniqueId("group");
+  // What the group plays. The metadata of sessions follows the current item.
+  public readonly queue = new PlayQueue();
+  // Item the metadata of the active session was last taken from, null once
+  // an item (re)starts
+  private _metadataItem: QueueItem | null = null;
 
-  constructor(private readonly logger: Logger) {
+  constructor(
+    private readonly logger: Logger,
+    public readonly clock: Clock = systemClock,
+  ) {
     super();
+    // Also when the same item restarts, like when repeating one
+    this.queue.on("current-change", () => {
+      this._metadataItem = null;
+    });
+    this.queue.on("update", () => {
+      const message = this._queueMessage();
+      for (const client of this.clients.values()) {
+        if (client.isReady()) {
+          client.send(message);
+        }
+      }
+      this._updateSessionMetadata();
+    });
   }
 
   public get size(): number {
     return this.clients.size;
   }
 
+  // Adding a member again does nothing, so players aren't caught up twice
   public addClient(client: ServerClient) {
+    if (this.clients.get(client.clientId) === client) {
+      return;
+    }
     this.clients.set(client.clientId, client);
     this.logger.log(`Client ${client.clientId} added to group ${this.groupId}`);
+    if (client.isReady() && this.queue.items.length > 0) {
+      client.send(this._queueMessage());
+    }
     this.fire("client-added", client);
   }
 
@@ -37,11 +75,127 @@ export class ServerGroup extends EventEmitter<ServerGroupEvents> {
     this.fire("client-removed", client);
   }
 
+  // Average volume of the players in the group that reported their state
+  public get volume(): number {
+    const volumes = this._playerVolumes();
+    return volumes.length > 0
+      ? volumes.reduce((total, volume) => total + volume, 0) / volumes.length
+      : 0;
+  }
+
+  // Set the group volume (0-100). Player volumes are scaled proportionally
+  // so their relative levels are kept.
+  public setVolume(volume: number) {
+    volume = Math.max(0, Math.min(100, volume));
+    const current = this.volume;
+    for (const client of this.clients.values()) {
+      if (!client.isReady() || !client.supportsFeature("volume")) {
+        continue;
+      }
+      const clientVolume = client.playerState?.volume;
+      if (clientVolume === undefined || current === 0) {
+        // Nothing to scale from, move everyone to the group volume
+        client.setVolume(volume);
+      } else {
+        client.setVolume((clientVolume * volume) / current);
+      }
+    }
+  }
+
+  public setMuted(muted: boolean) {
+    for (const client of this.clients.values()) {
+      if (client.isReady() && client.supportsFeature("volume")) {
+        client.setMuted(muted);
+      }
+    }
+  }
+
+  private _queueMessage(): QueueUpdateMessage {
+    const { items, currentIndex, repeat, shuffle } = this.queue;
+    return {
+      type: "queue/update",
+      payload: {
+        items: items.map(({ id, title, artist, album, duration }) => ({
+          id,
+          title,
+          artist,
+          album,
+          duration,
+        })),
+        current: currentIndex,
+        repeat,
+        shuffle,
+      },
+    };
+  }
+
+  // Send the metadata of the current queue item to the players of the
+  // active session.
+  private _updateSessionMetadata() {
+    const session = this.activeSession;
+    const item = this.queue.current;
+    if (!session || !item) {
+      return;
+    }
+    const metadata = session.metadata;
+    const supportCommands = metadata?.support_commands ?? [];
+    session.sendMetadata({
+      group_members: [],
+      ...metadata,
+      title: item.title,
+      artist: item.artist,
+      album: item.album,
+      year: item.year,
+      track: item.track,
+      duration: item.duration,
+      repeat: this.queue.repeat,
+      shuffle: this.queue.shuffle,
+      support_commands: [
+        ...supportCommands,
+        ...QUEUE_COMMANDS.filter((c) => !supportCommands.includes(c)),
+      ],
+      // A (re)started item plays from the beginning, its position is
+      // published once it plays
+      position: item === this._metadataItem ? metadata?.position : null,
+    });
+    this._metadataItem = item;
+  }
+
+  private _handleStreamCommand = ({
+    command,
+    index,
+  }: StreamCommandMessage["payload"]) => {
+    switch (command) {
+      case "next":
+        this.queue.next();
+        break;
+      case "previous":
+        this.queue.previous();
+        break;
+      case "jump":
+        if (index !== undefined && this.queue.items[index]) {
+          this.queue.jump(index);
+        }
+        break;
+    }
+  };
+
+  private _playerVolumes(): number[] {
+    const volumes: number[] = [];
+    for (const client of this.clients.values()) {
+      if (client.playerState) {
+        volumes.push(client.playerState.volume);
+      }
+    }
+    return volumes;
+  }
+
   startSession(
     codec: string = "pcm",
     sampleRate: number = 44100,
     channels: number = 2,
     bitDepth: number = 16,
+    codecHeader: string | null = null,
   ): ServerSession {
     if (this.activeSession) {
       throw new Error("Session already active");
@@ -50,15 +204,16 @@ export class ServerGroup extends EventEmitter<ServerGroupEvents> {
     const sessionInfo: SessionInfo = {
       session_id: generateUniqueId("session"),
       // Current timestamp in microseconds
-      now: Math.round((performance.timeOrigin + performance.now()) * 1000),
+      now: this.clock.now(),
       codec,
       sample_rate: sampleRate,
       channels,
       bit_depth: bitDepth,
-      codec_header: null,
+      codec_header: codecHeader,
     };
 
     this.activeSession = new ServerSession(this, sessionInfo, this.logger);
+    this.activeSession.on("stream-command", this._handleStreamCommand);
     this.activeSession.on("session-end", (session) => {
       this.activeSession = null;
       this.logger.log(`Session ${sessionInfo.session_id} ended`);
@@ -67,6 +222,8 @@ export class ServerGroup extends EventEmitter<ServerGroupEvents> {
     this.logger.log(
       `Session ${sessionInfo.session_id} started for group with ${this.size} clients`,
     );
+    this._metadataItem = null;
+    this._updateSessionMetadata();
     this.fire("session-start", this.activeSession);
     return this.activeSession;
   }
@@ -3,16 +3,56 @@ import {
   BinaryMessageType,
   SessionEndMessage,
   Metadata,
+  PlaybackPosition,
   ServerMessages,
+  CloseCode,
 } from "../messages.js";
 import type { Logger } from "../logging.js";
+import type { Clock } from "../util/clock.js";
 import { ServerGroup } from "./server-group.js";
 import { EventEmitter } from "../util/event-emitter.js";
 import { ServerClient, ServerClientEvents } from "./server-client.js";
 import { arraysEqual } from "../util/array-equal.js";
+import { AudioFormat, audioFormatKey } from "../audio/audio-format.js";
+import { AudioPipeline, negotiateAudioFormat } from "./audio-pipeline.js";
+import { getAudioEncoderFactory } from "./audio-encoder.js";
+import { deinterleavePCM } from "../audio/pcm.js";
+import { AudioFrame, toStandardLayout } from "../audio/audio-frame.js";
+import { Resampler, convertChannels } from "../audio/convert.js";
+import { AudioBacklog } from "./audio-backlog.js";
+import {
+  AudioPacket,
+  ClientAudioQueue,
+  SlowClientPolicy,
+} from "./client-audio-queue.js";
 
 const HEADER_SIZE = 13;
+// Microseconds between a pause or seek and the audio stopping, so the flush
+// reaches all players in time to stop at the same moment
+const FLUSH_DELAY = 200000;
 const METADATA_ARRAY_FIELDS = ["group_members", "support_commands"];
+// Microseconds a new playback position may differ from where the published
+// one extrapolates to without being sent
+const POSITION_TOLERANCE = 20000;
+
+// Whether two playback positions describe the same timeline, give or take
+// tolerance microseconds
+function samePlayback(
+  a: PlaybackPosition | null | undefined,
+  b: PlaybackPosition | null | undefined,
+  tolerance: number = 0,
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  const extrapolated = a.position + (b.timestamp - a.timestamp) * a.rate;
+  return a.rate === b.rate && Math.abs(extrapolated - b.position) <= tolerance;
+}
+
+interface SourceChunk {
+  channelData: Float32Array[];
+  timestamp: number;
+}
 
 interface ServerSessionEvents {
   "session-end": ServerSession;
@@ -21,20 +61,42 @@ interface ServerSessionEvents {
     client: ServerClient;
     state: ServerClientEvents["player-state"];
   };
+  "player-sync": {
+    client: ServerClient;
+    sync: ServerClientEvents["player-sync"];
+  };
+  // Audio from the timestamp on was discarded. The audio source should
+  // continue from there once resumed.
+  pause: { timestamp: number };
+  resume: void;
+  // Audio from the timestamp on was discarded, the audio source should
+  // continue from position (in microseconds)
+  seek: { position: number; timestamp: number };
+  "slow-client": {
+    client: ServerClient;
+    // Bytes waiting in the client socket
+    bufferedAmount: number;
+    policy: SlowClientPolicy;
+  };
 }
 
 class ClientEventWrapper {
   constructor(
     private readonly session: ServerSession,
     private readonly client: ServerClient,
+    public readonly pipeline: AudioPipeline,
+    public readonly audioQueue: ClientAudioQueue,
   ) {
     this.client.on("stream-command", this._onStreamCommand);
     this.client.on("player-state", this._onPlayerState);
+    this.client.on("player-sync", this._onPlayerSync);
   }
 
   public tearDown() {
     this.client.off("stream-command", this._onStreamCommand);
     this.client.off("player-state", this._onPlayerState);
+    this.client.off("player-sync", this._onPlayerSync);
+    this.audioQueue.close();
   }
 
   private _onStreamCommand = (
@@ -46,27 +108,155 @@ class ClientEventWrapper {
   private _onPlayerState = (state: ServerClientEvents["player-state"]) => {
     this.session.fire("player-state", { client: this.client, state });
   };
+
+  private _onPlayerSync = (sync: ServerClientEvents["player-sync"]) => {
+    this.session.fire("player-sync", { client: this.client, sync });
+  };
 }
 
 export class ServerSession extends EventEmitter<ServerSessionEvents> {
   sessionActive: Map<string, ClientEventWrapper> = new Map();
+  // What to do with clients whose socket can't keep up with the audio
+  public slowClientPolicy: SlowClientPolicy = "resync";
+  // Bytes waiting in a client socket above which the client is slow
+  public maxSocketBuffer = 2 * 1024 * 1024;
 
+  private _paused = false;
+  private _position: PlaybackPosition | null = null;
   private _lastReportedMetadata: Metadata | null = null;
   private _lastReportedArt: Buffer<ArrayBuffer> | null = null;
+  private readonly _sourceFormat: AudioFormat;
+  // Pipelines by format key, shared by all clients receiving that format
+  private _pipelines: Map<string, AudioPipeline> = new Map();
+  // Brings frames sent at a different sample rate to the session rate
+  private _inputResampler: Resampler | null = null;
+  // Session audio still to be played, to bring pipelines created mid-session
+  // up to date
+  private _sourceBacklog = new AudioBacklog<SourceChunk>();
+  // Clients none of the session formats can be made for, so they are only
+  // negotiated with once
+  private _unservableClients = new WeakSet<ServerClient>();
 
   constructor(
     private readonly group: ServerGroup,
-    private readonly sessionInfo: SessionInfo,
+    public readonly sessionInfo: SessionInfo,
     private readonly logger: Logger,
   ) {
     super();
+    this._sourceFormat = {
+      codec: sessionInfo.codec,
+      sampleRate: sessionInfo.sample_rate,
+      channels: sessionInfo.channels,
+      bitDepth: sessionInfo.bit_depth,
+    };
+    this.group.on("client-added", this._handleGroupAddedClient);
     this.group.on("client-removed", this._handleGroupRemovedClient);
     this.on("session-end", () => {
+      this.group.off("client-added", this._handleGroupAddedClient);
       this.group.off("client-removed", this._handleGroupRemovedClient);
     });
   }
 
+  // Clock of the session timeline
+  public get clock(): Clock {
+    return this.group.clock;
+  }
+
+  // Metadata last sent to the players
+  public get metadata(): Metadata | null {
+    return this._lastReportedMetadata;
+  }
+
+  public get paused(): boolean {
+    return this._paused;
+  }
+
+  // Discard audio playing from the given server time on, on the server and
+  // on the players. Returns the timestamp, by default shortly from now.
+  public flush(timestamp: number = this.clock.now() + FLUSH_DELAY): number {
+    this._sourceBacklog.discardFrom(timestamp);
+    for (const pipeline of this._pipelines.values()) {
+      pipeline.backlog.discardFrom(timestamp);
+    }
+    for (const wrapper of this.sessionActive.values()) {
+      wrapper.audioQueue.discardFrom(timestamp);
+    }
+    this.sendMessage({ type: "stream/flush", payload: { timestamp } });
+    this.logger.log(
+      `Session ${this.sessionInfo.session_id} flushed audio from ${timestamp}`,
+    );
+    return timestamp;
+  }
+
+  // Stop playback on all players at the same moment, instead of letting them
+  // play the audio they buffered.
+  public pause() {
+    if (this._paused) {
+      return;
+    }
+    this._paused = true;
+    const timestamp = this.flush();
+    if (this._position) {
+      // Playback stops where the audio was flushed, which can be before it
+      // reached the published position
+      const { position, timestamp: anchor, rate } = this._position;
+      this.updatePosition(
+        position + Math.max(0, timestamp - anchor) * rate,
+        timestamp,
+        0,
+      );
+    }
+    this.fire("pause", { timestamp });
+  }
+
+  public resume() {
+    if (!this._paused) {
+      return;
+    }
+    this._paused = false;
+    this.fire("resume");
+  }
+
+  // Continue playback from a position in microseconds, at most the duration
+  // of the track if known. A paused session stays paused.
+  public seek(position: number) {
+    if (!Number.isFinite(position) || position < 0) {
+      throw new Error(`Cannot seek to position ${position}`);
+    }
+    const duration = this._lastReportedMetadata?.duration ?? null;
+    if (duration !== null) {
+      position = Math.min(position, duration);
+    }
+    this.fire("seek", { position, timestamp: this.flush() });
+  }
+
+  // Publish the playback position in microseconds at a server time, and the
+  // rate it advances at (0 while paused). Players extrapolate from there, so
+  // it is only sent when it differs from where the last one extrapolates to.
+  // AudioStreamer does this for the audio it streams.
+  public updatePosition(
+    position: number,
+    timestamp: number = this.clock.now(),
+    rate: number = 1,
+  ) {
+    const next = { position, timestamp, rate };
+    if (samePlayback(this._position, next, POSITION_TOLERANCE)) {
+      return;
+    }
+    this._position = next;
+    if (this._lastReportedMetadata) {
+      this.sendMetadata({ ...this._lastReportedMetadata, position: next });
+    }
+  }
+
+  // Send metadata to the players. Without a position the one last passed to
+  // updatePosition is included.
   public sendMetadata(metadata: Metadata) {
+    if (metadata.position === undefined) {
+      metadata = { ...metadata, position: this._position };
+    } else {
+      this._position = metadata.position;
+    }
     // we are going to send the whole metadata object if we didn't share one yet
     // otherwise only include the keys that are different from the last reported metadata
     let payload: Partial<Metadata>;
@@ -83,6 +273,15 @@ export class ServerSession extends EventEmitter<ServerSessionEvents> {
             // @ts-ignore
             payload[key] = metadata[key];
           }
+        } else if (key === "position") {
+          if (
+            !samePlayback(
+              this._lastReportedMetadata.position,
+              metadata.position,
+            )
+          ) {
+            payload.position = metadata.position;
+          }
         } else {
           // @ts-ignore
           if (this._lastReportedMetadata[key] !== metadata[key]) {
@@ -122,7 +321,12 @@ export class ServerSession extends EventEmitter<ServerSessionEvents> {
         client.send(sessionEndMessage);
       }
     }
+    for (const wrapper of this.sessionActive.values()) {
+      wrapper.tearDown();
+    }
     this.sessionActive.clear();
+    this._pipelines.clear();
+    this._sourceBacklog.clear();
     this._lastReportedMetadata = null;
     this._lastReportedArt = null;
     this.fire("session-end", this);
@@ -148,29 +352,149 @@ export class ServerSession extends EventEmitter<ServerSessionEvents> {
         }
         continue;
       }
+      if (!this.sessionActive.has(client.clientId)) {
+        this._activate(client);
+      }
+      // Clients can be dropped again while catching up
       if (this.sessionActive.has(client.clientId)) {
         yield client;
-        continue;
       }
+    }
+  }
+
+  // Bring a client into the session, catching it up on session info,
+  // metadata, art and audio.
+  private _activate(client: ServerClient) {
+    if (this._unservableClients.has(client)) {
+      return;
+    }
+    const format = client.playerInfo
+      ? negotiateAudioFormat(this._sourceFormat, client.playerInfo)
+      : null;
+    const pipeline = format ? this._getPipeline(format) : null;
+    if (!pipeline) {
+      this.logger.log(
+        `Client ${client.clientId} does not support a usable audio format, skipping`,
+      );
+      // Without a hello it may still tell us what it supports
+      if (client.playerInfo) {
+        this._unservableClients.add(client);
+      }
+      return;
+    }
+    client.send({
+      type: "session/start" as const,
+      payload: pipeline.sessionInfo,
+    });
+    if (this._lastReportedMetadata) {
       client.send({
-        type: "session/start" as const,
-        payload: this.sessionInfo,
+        type: "metadata/update" as const,
+        payload: this._lastReportedMetadata,
       });
-      if (this._lastReportedMetadata) {
-        client.send({
-          type: "metadata/update" as const,
-          payload: this._lastReportedMetadata,
-        });
+    }
+    if (this._lastReportedArt) {
+      client.sendBinary(this._lastReportedArt);
+    }
+    const audioQueue = new ClientAudioQueue(
+      client,
+      this,
+      (bufferedAmount) => this._handleSlowClient(client, bufferedAmount),
+      this.clock,
+    );
+    this.sessionActive.set(
+      client.clientId,
+      new ClientEventWrapper(this, client, pipeline, audioQueue),
+    );
+    // Catch up on audio that was sent before the client joined
+    for (const packet of pipeline.backlog.pending(this.clock.now())) {
+      audioQueue.enqueue(packet);
+    }
+  }
+
+  private _getPipeline(format: AudioFormat): AudioPipeline {
+    const key = audioFormatKey(format);
+    let pipeline = this._pipelines.get(key);
+    if (pipeline) {
+      return pipeline;
+    }
+    pipeline = new AudioPipeline(this._sourceFormat, format, this.sessionInfo);
+    this._pipelines.set(key, pipeline);
+    this.logger.log(
+      `Session ${this.sessionInfo.session_id} now also streams ${key}`,
+    );
+    if (getAudioEncoderFactory(this.sessionInfo.codec)) {
+      // Encode the audio that is still to be played in the new format
+      for (const chunk of this._sourceBacklog.pending(this.clock.now())) {
+        this._processChunk(pipeline, chunk.channelData, chunk.timestamp);
       }
-      if (this._lastReportedArt) {
-        client.sendBinary(this._lastReportedArt);
+    }
+    return pipeline;
+  }
+
+  // Convert and encode a chunk of session audio for a pipeline, remembering
+  // the packet for clients joining later. Returns null if there is nothing to
+  // send yet.
+  private _processChunk(
+    pipeline: AudioPipeline,
+    channelData: Float32Array[],
+    timestamp: number,
+  ): AudioPacket | null {
+    const encoded = pipeline.process(channelData);
+    if (!encoded) {
+      return null;
+    }
+    const packet = this._createAudioPacket(
+      encoded.data,
+      encoded.sampleCount,
+      pipeline.format.sampleRate,
+      timestamp,
+    );
+    pipeline.backlog.add(timestamp, packet.duration, packet);
+    return packet;
+  }
+
+  // Group the audio queues of ready clients by the pipeline producing their
+  // audio
+  private _audioQueuesByPipeline(): Map<AudioPipeline, ClientAudioQueue[]> {
+    const result = new Map<AudioPipeline, ClientAudioQueue[]>();
+    for (const client of this._readyClients()) {
+      const { pipeline, audioQueue } = this.sessionActive.get(client.clientId)!;
+      if (!result.has(pipeline)) {
+        result.set(pipeline, []);
       }
-      this.sessionActive.set(
-        client.clientId,
-        new ClientEventWrapper(this, client),
-      );
-      yield client;
+      result.get(pipeline)!.push(audioQueue);
     }
+    return result;
+  }
+
+  private _createAudioPacket(
+    data: Uint8Array,
+    sampleCount: number,
+    sampleRate: number,
+    timestamp: number,
+  ): AudioPacket {
+    const buffer = new ArrayBuffer(HEADER_SIZE + data.byteLength);
+    this.writeAudioPacketHeader(new DataView(buffer), timestamp, sampleCount);
+    new Uint8Array(buffer, HEADER_SIZE).set(data);
+    return {
+      data: buffer,
+      timestamp,
+      duration: (sampleCount / sampleRate) * 1000000,
+    };
+  }
+
+  private _handleSlowClient(client: ServerClient, bufferedAmount: number) {
+    const policy = this.slowClientPolicy;
+    this.logger.log(
+      `Client ${client.clientId} is slow with ${bufferedAmount} bytes buffered, applying ${policy}`,
+    );
+    this.fire("slow-client", { client, bufferedAmount, policy });
+    if (policy !== "drop" || !this.sessionActive.has(client.clientId)) {
+      return;
+    }
+    this.sessionActive.get(client.clientId)!.tearDown();
+    this.sessionActive.delete(client.clientId);
+    client.transport.close(CloseCode.TooSlow, "client too slow");
   }
 
   public sendMessage(message: ServerMessages) {
@@ -185,72 +509,140 @@ export class ServerSession extends EventEmitter<ServerSessionEvents> {
     }
   }
 
-  // Create and send a PCM audio chunk from raw samples
+  // Create and send an audio chunk from raw samples. Pass either interleaved
+  // samples or one Float32Array per channel. Int32Array samples are in the
+  // range of the session bit depth, float samples in [-1, 1].
   sendPCMAudioChunk(
-    pcmData: Int16Array | Float32Array,
-    timestamp: number = Date.now(),
+    pcmData: Int16Array | Int32Array | Float32Array | Float32Array[],
+    timestamp: number = this.clock.now(),
   ) {
-    // Convert to Float32Array format if it's Int16Array
-    let floatData: Float32Array[];
-
-    if (pcmData instanceof Int16Array) {
-      // Convert interleaved Int16Array to multichannel Float32Arrays
-      const { channels } = this.sessionInfo;
-      const samplesPerChannel = Math.floor(pcmData.length / channels);
-
-      floatData = Array(channels)
-        .fill(null)
-        .map(() => new Float32Array(samplesPerChannel));
+    const { channels, bit_depth: bitDepth } = this.sessionInfo;
 
-      for (let i = 0; i < samplesPerChannel; i++) {
-        for (let ch = 0; ch < channels; ch++) {
-          floatData[ch][i] = pcmData[i * channels + ch] / 32768;
-        }
+    if (Array.isArray(pcmData)) {
+      if (pcmData.length !== channels) {
+        throw new Error(
+          `Channel mismatch: expected ${channels}, got ${pcmData.length}`,
+        );
       }
-    } else {
-      // Assume mono if Float32Array is provided directly
-      floatData = [pcmData];
+      this._sendFloatAudio(pcmData, timestamp);
+      return;
     }
 
-    const { channels, bit_depth: bitDepth } = this.sessionInfo;
-
     // Validate input
-    if (floatData.length !== channels) {
+    if (pcmData.length % channels !== 0) {
       throw new Error(
-        `Channel mismatch: expected ${channels}, got ${floatData.length}`,
+        `Channel mismatch: ${pcmData.length} samples cannot be split into ${channels} channels`,
       );
     }
 
-    // Get sample count from first channel's length
-    const sampleCount = floatData[0].length;
+    this._sendFloatAudio(
+      deinterleavePCM(pcmData, channels, bitDepth),
+      timestamp,
+    );
+  }
 
-    // Calculate header size and total message size
-    const bytesPerSample = bitDepth / 8;
-    const dataSize = sampleCount * channels * bytesPerSample;
-    const totalSize = HEADER_SIZE + dataSize;
+  // Send a frame of planar audio. Frames with a different channel layout or
+  // sample rate than the session are converted to the session format first.
+  sendAudioFrame(frame: AudioFrame) {
+    const { channels, sample_rate: sampleRate } = this.sessionInfo;
+    let channelData = convertChannels(toStandardLayout(frame), channels);
 
-    // Create the binary message buffer
-    const buffer = new ArrayBuffer(totalSize);
-    const dataView = new DataView(buffer);
+    if (frame.sampleRate !== sampleRate) {
+      if (this._inputResampler?.sourceRate !== frame.sampleRate) {
+        this._inputResampler = new Resampler(frame.sampleRate, sampleRate);
+      }
+      channelData = this._inputResampler.process(channelData);
+      if (channelData[0].length === 0) {
+        return;
+      }
+    }
 
-    this.writeAudioPacketHeader(dataView, timestamp, sampleCount);
+    this._sendFloatAudio(channelData, frame.timestamp);
+  }
 
-    // Write audio data
-    for (let i = 0; i < sampleCount; i++) {
-      for (let channel = 0; channel < channels; channel++) {
-        // Convert float [-1,1] to int16 [-32768,32767]
-        const sample = Math.max(-1, Math.min(1, floatData[channel][i]));
-        const sampleInt = Math.round(sample * 32767);
+  // Convert and encode planar audio in the session format once for every
+  // distinct client format.
+  private _sendFloatAudio(floatData: Float32Array[], timestamp: number) {
+    if (!getAudioEncoderFactory(this.sessionInfo.codec)) {
+      throw new Error(
+        `Cannot send PCM audio to a ${this.sessionInfo.codec} session, use sendEncodedAudioChunk`,
+      );
+    }
+    const sampleCount = floatData[0].length;
+    if (floatData.some((channel) => channel.length !== sampleCount)) {
+      throw new Error("All channels must have the same number of samples");
+    }
 
-        // Write the sample to the buffer (little-endian)
-        const offset = HEADER_SIZE + (i * channels + channel) * bytesPerSample;
-        dataView.setInt16(offset, sampleInt, true);
+    const queuesByPipeline = this._audioQueuesByPipeline();
+    for (const [key, pipeline] of this._pipelines) {
+      if (!queuesByPipeline.has(pipeline)) {
+        // Skipping audio would leave the backlog with a gap, a pipeline
+        // created when a client needs it again starts from the source backlog
+        this._pipelines.delete(key);
+      }
+    }
+    for (const [pipeline, audioQueues] of queuesByPipeline) {
+      const packet = this._processChunk(pipeline, floatData, timestamp);
+      if (!packet) {
+        continue;
+      }
+      for (const audioQueue of audioQueues) {
+        audioQueue.enqueue(packet);
       }
     }
+    // Pipelines created later start from here, copy as callers may reuse
+    // their buffers
+    this._sourceBacklog.add(
+      timestamp,
+      (sampleCount / this.sessionInfo.sample_rate) * 1000000,
+      {
+        channelData: floatData.map((channel) => channel.slice()),
+        timestamp,
+      },
+    );
+    this.logger.log(
+      `Broadcasted audio chunk: ${sampleCount} samples at timestamp ${timestamp} to ${this.sessionActive.size} clients in ${this._pipelines.size} formats`,
+    );
+  }
 
-    this.sendBinary(buffer);
+  // Send an already encoded audio frame (e.g. a single Opus packet) as is.
+  // Codec setup data belongs in SessionInfo.codec_header, not in the frames.
+  // Only possible for codecs the server cannot encode itself, so all clients
+  // receive the session format.
+  sendEncodedAudioChunk(
+    data: Uint8Array,
+    sampleCount: number,
+    timestamp: number,
+  ) {
+    if (getAudioEncoderFactory(this.sessionInfo.codec)) {
+      throw new Error(
+        `Use sendPCMAudioChunk for ${this.sessionInfo.codec} sessions`,
+      );
+    }
+
+    const packet = this._createAudioPacket(
+      data,
+      sampleCount,
+      this.sessionInfo.sample_rate,
+      timestamp,
+    );
+    // Clients joining now catch up on the backlog, take them before the
+    // packet is in it so they don't receive it twice
+    const queuesByPipeline = this._audioQueuesByPipeline();
+    // All clients share the session format, remember the packet even without
+    // clients so the first one to join can catch up
+    this._getPipeline(this._sourceFormat).backlog.add(
+      timestamp,
+      packet.duration,
+      packet,
+    );
+    for (const audioQueues of queuesByPipeline.values()) {
+      for (const audioQueue of audioQueues) {
+        audioQueue.enqueue(packet);
+      }
+    }
     this.logger.log(
-      `Broadcasted audio chunk: ${floatData[0].length} samples at timestamp ${timestamp}ms to ${this.sessionActive.size} clients`,
+      `Broadcasted ${this.sessionInfo.codec} audio chunk: ${sampleCount} samples at timestamp ${timestamp} to ${this.sessionActive.size} clients`,
     );
   }
 
@@ -276,12 +668,24 @@ export class ServerSession extends EventEmitter<ServerSessionEvents> {
     );
   }
 
+  // Start streaming to clients right away instead of with the next chunk
+  private _handleGroupAddedClient = (client: ServerClient) => {
+    if (client.isReady() && !this.sessionActive.has(client.clientId)) {
+      this._activate(client);
+    }
+  };
+
+  // Forget the client even if its connection is gone, the player can come
+  // back with the same client ID on a new connection
   private _handleGroupRemovedClient = (client: ServerClient) => {
-    if (!this.sessionActive.has(client.clientId) || !client.isReady()) {
+    if (!this.sessionActive.has(client.clientId)) {
       return;
     }
     this.sessionActive.get(client.clientId)!.tearDown();
     this.sessionActive.delete(client.clientId);
+    if (!client.isReady()) {
+      return;
+    }
     client.send({
       type: "session/end" as const,
       payload: {
@@ -0,0 +1,28 @@
+export interface TransportEvents {
+  // Text messages are strings, binary messages byte arrays
+  message: string | Uint8Array;
+  // Reply to a ping
+  pong: void;
+  close: { code: number; reason: string };
+  error: Error;
+}
+
+// Connection to a single player, as used by ServerClient. Implemented for
+// WebSockets and for players in the same process.
+export interface Transport {
+  readonly isOpen: boolean;
+  // Bytes queued that have not been sent yet
+  readonly bufferedAmount: number;
+
+  send(data: string | ArrayBuffer): void;
+  // Check the connection is alive, the peer answers with a pong
+  ping(): void;
+  close(code?: number, reason?: string): void;
+  // Drop the connection without a closing handshake
+  terminate(): void;
+
+  on<K extends keyof TransportEvents>(
+    event: K,
+    listener: (data: TransportEvents[K]) => unknown,
+  ): unknown;
+}
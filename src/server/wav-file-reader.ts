@@ -0,0 +1,90 @@
+import { promises as fs } from "fs";
+import { WavFormat, decodeWavSamples, readWavHeader } from "../audio/wav.js";
+
+// Default number of frames per chunk read
+const DEFAULT_CHUNK_FRAMES = 4800;
+
+// Reads a WAVE file from disk in chunks, so large files don't have to fit in
+// memory. The chunks are planar float audio in standard channel order, which
+// can be passed to an AudioStreamer or ServerSession.sendPCMAudioChunk.
+export class WavFileReader {
+  private constructor(
+    private readonly file: fs.FileHandle,
+    public readonly format: WavFormat,
+    private readonly dataOffset: number,
+    private readonly dataSize: number | null,
+  ) {}
+
+  static async open(path: string): Promise<WavFileReader> {
+    const file = await fs.open(path, "r");
+    try {
+      const header = await readWavHeader((offset, length) =>
+        readAt(file, offset, length),
+      );
+      return new WavFileReader(
+        file,
+        header.format,
+        header.dataOffset,
+        header.dataSize,
+      );
+    } catch (err) {
+      await file.close();
+      throw err;
+    }
+  }
+
+  // Number of frames in the file, null if the file does not say
+  get frameCount(): number | null {
+    return this.dataSize === null
+      ? null
+      : Math.floor(this.dataSize / this.format.blockAlign);
+  }
+
+  // Duration of the audio in microseconds, null if unknown
+  get duration(): number | null {
+    const { frameCount } = this;
+    return frameCount === null
+      ? null
+      : (frameCount / this.format.sampleRate) * 1000000;
+  }
+
+  // Read the audio from the given frame on, chunkFrames frames at a time.
+  async *read(
+    chunkFrames: number = DEFAULT_CHUNK_FRAMES,
+    startFrame: number = 0,
+  ): AsyncGenerator<Float32Array[]> {
+    if (startFrame < 0) {
+      // Would read the header as audio
+      throw new Error(`Cannot read from frame ${startFrame}`);
+    }
+    const { blockAlign } = this.format;
+    const end =
+      this.dataSize === null ? Infinity : this.dataOffset + this.dataSize;
+    let offset = this.dataOffset + startFrame * blockAlign;
+    while (offset < end) {
+      const length = Math.min(chunkFrames * blockAlign, end - offset);
+      const bytes = await readAt(this.file, offset, length);
+      const frames = Math.floor(bytes.length / blockAlign);
+      if (frames === 0) {
+        // End of the file, or a truncated last frame
+        return;
+      }
+      offset += frames * blockAlign;
+      yield decodeWavSamples(bytes, this.format);
+    }
+  }
+
+  async close() {
+    await this.file.close();
+  }
+}
+
+async function readAt(
+  file: fs.FileHandle,
+  offset: number,
+  length: number,
+): Promise<Uint8Array> {
+  const buffer = new Uint8Array(length);
+  const { bytesRead } = await file.read(buffer, 0, length, offset);
+  return buffer.subarray(0, bytesRead);
+}
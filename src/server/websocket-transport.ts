@@ -0,0 +1,48 @@
+import { WebSocket } from "ws";
+import { EventEmitter } from "../util/event-emitter.js";
+import type { Transport, TransportEvents } from "./transport.js";
+
+// Transport over a WebSocket of the ws package.
+export class WebSocketTransport
+  extends EventEmitter<TransportEvents>
+  implements Transport
+{
+  constructor(public readonly socket: WebSocket) {
+    super();
+    socket.on("message", (data, isBinary) => {
+      const buffer = Array.isArray(data)
+        ? Buffer.concat(data)
+        : Buffer.from(data as Buffer | ArrayBuffer);
+      this.fire("message", isBinary ? buffer : buffer.toString());
+    });
+    socket.on("pong", () => this.fire("pong"));
+    socket.on("close", (code, reason) =>
+      this.fire("close", { code, reason: reason.toString() }),
+    );
+    socket.on("error", (error) => this.fire("error", error));
+  }
+
+  get isOpen(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  get bufferedAmount(): number {
+    return this.socket.bufferedAmount;
+  }
+
+  send(data: string | ArrayBuffer) {
+    this.socket.send(data);
+  }
+
+  ping() {
+    this.socket.ping();
+  }
+
+  close(code?: number, reason?: string) {
+    this.socket.close(code, reason);
+  }
+
+  terminate() {
+    this.socket.terminate();
+  }
+}
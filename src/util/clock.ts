@@ -0,0 +1,101 @@
+export type TimerHandle = unknown;
+
+// Source of time and timers. Timestamps are in microseconds, timer delays in
+// milliseconds like the global timer functions.
+export interface Clock {
+  // Current time in microseconds
+  now(): number;
+  setTimeout(callback: () => void, delay: number): TimerHandle;
+  setInterval(callback: () => void, interval: number): TimerHandle;
+  // Cancel a timeout or interval
+  clearTimer(timer: TimerHandle): void;
+}
+
+// The system clock, in microseconds since the Unix epoch. Monotonic, so it
+// keeps running smoothly when the wall clock is adjusted.
+export const systemClock: Clock = {
+  now: () => Math.round((performance.timeOrigin + performance.now()) * 1000),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  setInterval: (callback, interval) => setInterval(callback, interval),
+  clearTimer: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
+
+interface FakeTimer {
+  id: number;
+  // Time in microseconds the timer is due
+  due: number;
+  // Interval in milliseconds for repeating timers, like setInterval takes
+  interval: number | null;
+  callback: () => void;
+}
+
+// Clock that only moves when told to, to test timing deterministically.
+export class FakeClock implements Clock {
+  private time: number;
+  private timers: FakeTimer[] = [];
+  private nextId = 1;
+
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    return this._addTimer(callback, delay, null);
+  }
+
+  setInterval(callback: () => void, interval: number): TimerHandle {
+    return this._addTimer(callback, interval, interval);
+  }
+
+  clearTimer(timer: TimerHandle) {
+    this.timers = this.timers.filter((t) => t.id !== timer);
+  }
+
+  // Number of timers waiting to run
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  // Move time forward by the given microseconds, running the timers that
+  // become due in order, each at the time it is due.
+  advance(duration: number) {
+    const end = this.time + duration;
+    for (;;) {
+      const next = this.timers.reduce<FakeTimer | null>(
+        (earliest, timer) =>
+          !earliest || timer.due < earliest.due ? timer : earliest,
+        null,
+      );
+      if (!next || next.due > end) {
+        break;
+      }
+      this.time = Math.max(this.time, next.due);
+      if (next.interval === null) {
+        this.clearTimer(next.id);
+      } else {
+        next.due += Math.max(1, next.interval * 1000);
+      }
+      next.callback();
+    }
+    this.time = end;
+  }
+
+  private _addTimer(
+    callback: () => void,
+    delay: number,
+    interval: number | null,
+  ): number {
+    const id = this.nextId++;
+    this.timers.push({
+      id,
+      due: this.time + Math.max(0, delay) * 1000,
+      interval,
+      callback,
+    });
+    return id;
+  }
+}
@@ -0,0 +1,23 @@
+// Events of the WebSocket API we listen to, with the fields we read
+export interface WebSocketEvents {
+  open: unknown;
+  // ArrayBuffer for binary messages, binaryType is set to "arraybuffer"
+  message: { data: string | ArrayBuffer };
+  error: unknown;
+  close: { code: number; reason: string };
+}
+
+// The part of the WebSocket API we use, provided by browsers and by the ws
+// package in Node.js
+export interface WebSocketLike {
+  binaryType: string;
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener<K extends keyof WebSocketEvents>(
+    type: K,
+    listener: (event: WebSocketEvents[K]) => void,
+  ): void;
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
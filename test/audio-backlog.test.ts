@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AudioBacklog } from "../src/server/audio-backlog.js";
+
+// A backlog of second long items named by their start time in seconds
+function createBacklog(starts: number[], maxDuration?: number) {
+  const backlog = new AudioBacklog<number>(maxDuration);
+  for (const start of starts) {
+    backlog.add(start * 1000000, 1000000, start);
+  }
+  return backlog;
+}
+
+test("items are pending until they finished playing", () => {
+  const backlog = createBacklog([0, 1, 2]);
+
+  assert.deepEqual(backlog.pending(0), [0, 1, 2]);
+  assert.deepEqual(backlog.pending(1500000), [1, 2]);
+  // Ends exactly now
+  assert.deepEqual(backlog.pending(2000000), [2]);
+  assert.deepEqual(backlog.pending(3000000), []);
+});
+
+test("items further ahead than the maximum duration push out the oldest", () => {
+  const backlog = createBacklog([0, 1, 2, 3], 2000000);
+  assert.deepEqual(backlog.pending(0), [1, 2, 3]);
+});
+
+test("a single item is kept even if it is longer than the maximum", () => {
+  const backlog = new AudioBacklog<string>(1000);
+  backlog.add(0, 1000000, "long");
+  assert.deepEqual(backlog.pending(0), ["long"]);
+});
+
+test("flushed items are forgotten", () => {
+  const backlog = createBacklog([0, 1, 2]);
+
+  // The second item is still playing at the flush time
+  backlog.discardFrom(1500000);
+  assert.deepEqual(backlog.pending(0), [0]);
+  backlog.clear();
+  assert.deepEqual(backlog.pending(0), []);
+});
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { toStandardLayout } from "../src/audio/audio-frame.js";
+
+const channels = (count: number) =>
+  Array.from({ length: count }, (_, i) => Float32Array.from([i]));
+
+test("frames without a layout are taken in standard order", () => {
+  const channelData = channels(2);
+  assert.equal(
+    toStandardLayout({ timestamp: 0, sampleRate: 48000, channelData }),
+    channelData,
+  );
+});
+
+test("channels are reordered into the standard layout", () => {
+  const channelData = channels(6);
+  const reordered = toStandardLayout({
+    timestamp: 0,
+    sampleRate: 48000,
+    channelData,
+    layout: ["FL", "FR", "BL", "BR", "FC", "LFE"],
+  });
+  // FL FR FC LFE BL BR
+  assert.deepEqual(
+    reordered.map((channel) => channel[0]),
+    [0, 1, 4, 5, 2, 3],
+  );
+});
+
+test("layouts must describe every channel once", () => {
+  assert.throws(
+    () =>
+      toStandardLayout({
+        timestamp: 0,
+        sampleRate: 48000,
+        channelData: channels(2),
+        layout: ["FL", "FR", "FC"],
+      }),
+    /Layout describes 3 channels, frame has 2/,
+  );
+  assert.throws(
+    () =>
+      toStandardLayout({
+        timestamp: 0,
+        sampleRate: 48000,
+        channelData: channels(2),
+        layout: ["FL", "FL"],
+      }),
+    /Unsupported channel layout FL, FL/,
+  );
+  assert.throws(
+    () =>
+      toStandardLayout({
+        timestamp: 0,
+        sampleRate: 48000,
+        channelData: channels(7),
+        layout: ["FL", "FR", "FC", "LFE", "BL", "BR", "SL"],
+      }),
+    /Unsupported channel layout/,
+  );
+});
@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { PlayerInfo, SessionInfo } from "../src/messages.js";
+import type { AudioFormat } from "../src/audio/audio-format.js";
+import {
+  AudioPipeline,
+  negotiateAudioFormat,
+} from "../src/server/audio-pipeline.js";
+import { PLAYER_HELLO } from "./helpers.js";
+
+const player = (info: Partial<PlayerInfo>): PlayerInfo => ({
+  ...PLAYER_HELLO,
+  ...info,
+});
+
+test("players get the session format when they support it", () => {
+  const source: AudioFormat = {
+    codec: "pcm",
+    sampleRate: 48000,
+    channels: 2,
+    bitDepth: 16,
+  };
+  assert.deepEqual(negotiateAudioFormat(source, player({})), source);
+});
+
+test("the closest supported rate, layout and bit depth is picked", () => {
+  const format = negotiateAudioFormat(
+    { codec: "pcm", sampleRate: 44100, channels: 2, bitDepth: 24 },
+    player({
+      support_sample_rates: [22050, 48000, 96000],
+      support_channels: [1],
+      support_bit_depth: [16],
+    }),
+  );
+  assert.deepEqual(format, {
+    codec: "pcm",
+    sampleRate: 48000,
+    channels: 1,
+    bitDepth: 16,
+  });
+});
+
+test("another codec is tried when the session codec has no usable bit depth", () => {
+  // pcm_float only encodes 32-bit samples
+  const format = negotiateAudioFormat(
+    { codec: "pcm_float", sampleRate: 48000, channels: 2, bitDepth: 32 },
+    player({
+      support_codecs: ["pcm_float", "pcm"],
+      support_bit_depth: [16, 24],
+    }),
+  );
+  assert.deepEqual(format, {
+    codec: "pcm",
+    sampleRate: 48000,
+    channels: 2,
+    bitDepth: 24,
+  });
+});
+
+test("players that share no format with the session are not served", () => {
+  const source: AudioFormat = {
+    codec: "pcm",
+    sampleRate: 48000,
+    channels: 2,
+    bitDepth: 16,
+  };
+  assert.equal(
+    negotiateAudioFormat(source, player({ support_codecs: ["opus"] })),
+    null,
+  );
+  assert.equal(
+    negotiateAudioFormat(source, player({ support_channels: [] })),
+    null,
+  );
+});
+
+test("pre-encoded audio needs a player that takes it as is", () => {
+  const source: AudioFormat = {
+    codec: "opus",
+    sampleRate: 48000,
+    channels: 2,
+    bitDepth: 16,
+  };
+  const opusPlayer = player({ support_codecs: ["opus", "pcm"] });
+  assert.deepEqual(negotiateAudioFormat(source, opusPlayer), source);
+  assert.equal(
+    negotiateAudioFormat(
+      source,
+      player({ ...opusPlayer, support_sample_rates: [44100] }),
+    ),
+    null,
+  );
+});
+
+test("pipelines convert, resample and encode session audio", () => {
+  const source: AudioFormat = {
+    codec: "pcm_float",
+    sampleRate: 48000,
+    channels: 2,
+    bitDepth: 32,
+  };
+  const format: AudioFormat = {
+    codec: "pcm",
+    sampleRate: 24000,
+    channels: 1,
+    bitDepth: 16,
+  };
+  const sessionInfo: SessionInfo = {
+    session_id: "session",
+    now: 0,
+    codec: "pcm_float",
+    sample_rate: 48000,
+    channels: 2,
+    bit_depth: 32,
+    codec_header: null,
+  };
+  const pipeline = new AudioPipeline(source, format, sessionInfo);
+  assert.equal(pipeline.sessionInfo.codec, "pcm");
+  assert.equal(pipeline.sessionInfo.sample_rate, 24000);
+  assert.equal(pipeline.sessionInfo.channels, 1);
+  assert.equal(pipeline.sessionInfo.bit_depth, 16);
+
+  const chunk = () => [new Float32Array(960), new Float32Array(960)];
+  let sampleCount = 0;
+  for (let i = 0; i < 10; i++) {
+    const packet = pipeline.process(chunk())!;
+    assert.equal(packet.data.byteLength, packet.sampleCount * 2);
+    sampleCount += packet.sampleCount;
+  }
+  assert.equal(sampleCount, 4800);
+});
@@ -0,0 +1,268 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Metadata } from "../src/messages.js";
+import { AudioStreamer } from "../src/server/audio-streamer.js";
+import { RecordingSink, TestBed } from "./helpers.js";
+
+const SAMPLE_RATE = 48000;
+// Microseconds of audio the source has
+const SOURCE_DURATION = 20000000;
+
+const METADATA: Metadata = {
+  title: "Song",
+  artist: null,
+  album: null,
+  year: null,
+  track: null,
+  group_members: [],
+  support_commands: ["play", "pause", "seek"],
+  repeat: "off",
+  shuffle: false,
+  duration: SOURCE_DURATION,
+};
+
+// Audio whose samples tell which frame of the source they are, counting
+// from 1 so they can be told apart from silence
+function* source(
+  position: number,
+  duration: number = SOURCE_DURATION,
+): Generator<Float32Array[]> {
+  const end = (duration / 1000000) * SAMPLE_RATE;
+  for (
+    let frame = Math.round((position / 1000000) * SAMPLE_RATE);
+    frame < end;
+    frame += 4800
+  ) {
+    const channel = Float32Array.from(
+      { length: Math.min(4800, end - frame) },
+      (_, i) => (frame + i + 1) / 1000000,
+    );
+    yield [channel, channel.slice()];
+  }
+}
+
+// Source frames in the order they played, without the silence
+const playedFrames = (sink: RecordingSink) =>
+  sink.samples
+    .filter((sample) => sample !== 0)
+    .map((sample) => Math.round(sample * 1000000) - 1);
+
+// Time in seconds the given source frame played at
+const playTime = (sink: RecordingSink, frame: number) =>
+  sink.times[
+    sink.samples.findIndex(
+      (sample) => Math.round(sample * 1000000) - 1 === frame,
+    )
+  ];
+
+async function setUp(duration: number = SOURCE_DURATION) {
+  const bed = new TestBed();
+  const player = await bed.connect("kitchen", new RecordingSink());
+  const session = bed.group.startSession("pcm_float", SAMPLE_RATE, 2, 32);
+  session.sendMetadata({ ...METADATA, duration });
+  const streamer = new AudioStreamer(session, (position) =>
+    source(position, duration),
+  );
+  const done = streamer.start();
+  return { bed, player, session, streamer, done };
+}
+
+test("the source plays from start to end", async () => {
+  const { bed, player, streamer, done } = await setUp(2000000);
+  const start = bed.clock.now() + 500000;
+
+  await bed.run(3000000);
+  await done;
+  assert.equal(streamer.state, "ended");
+  const frames = playedFrames(player.sink);
+  assert.equal(frames.length, 2 * SAMPLE_RATE);
+  assert.ok(frames.every((frame, i) => frame === i));
+  assert.equal(player.sink.times[0], start / 1000000);
+});
+
+test("pausing stops all players at the flush time and resumes seamlessly", async () => {
+  const { bed, player, session, streamer, done } = await setUp(3000000);
+
+  await bed.run(1000000);
+  session.pause();
+  const flushedAt = bed.clock.now() + 200000;
+  await bed.run(1000000);
+  assert.equal(streamer.state, "paused");
+  const frames = playedFrames(player.sink);
+  const lastFrame = frames[frames.length - 1];
+  // Stopped at the flush time, having played from half a second in
+  assert.equal(lastFrame + 1, (flushedAt - 1500000) * (SAMPLE_RATE / 1000000));
+
+  session.resume();
+  await bed.run(3000000);
+  await done;
+  // Nothing was skipped or played twice
+  const all = playedFrames(player.sink);
+  assert.equal(all.length, 3 * SAMPLE_RATE);
+  assert.ok(all.every((frame, i) => frame === i));
+});
+
+test("seeking continues from the new position at the flush time", async () => {
+  const { bed, player, session, streamer } = await setUp();
+
+  await bed.run(1000000);
+  session.seek(10000000);
+  const flushedAt = bed.clock.now() + 200000;
+  await bed.run(1000000);
+
+  const seekFrame = 10 * SAMPLE_RATE;
+  const frames = playedFrames(player.sink);
+  const jump = frames.indexOf(seekFrame);
+  assert.ok(jump > 0);
+  // Consecutive up to the flush time, consecutive from the new position on
+  assert.ok(frames.slice(0, jump).every((frame, i) => frame === i));
+  assert.ok(frames.slice(jump).every((frame, i) => frame === seekFrame + i));
+  assert.equal(playTime(player.sink, seekFrame), flushedAt / 1000000);
+  streamer.stop();
+});
+
+test("seeking past the end plays out the session", async () => {
+  const { bed, session, streamer, done } = await setUp(2000000);
+
+  await bed.run(1000000);
+  session.seek(30000000);
+  assert.equal(session.metadata!.position!.position, 2000000);
+  await bed.run(1000000);
+  await done;
+  assert.equal(streamer.state, "ended");
+});
+
+test("seeking to a negative position is rejected", async () => {
+  const { session, streamer } = await setUp();
+
+  assert.throws(() => session.seek(-1));
+  streamer.stop();
+});
+
+test("players can't send a negative seek position", async () => {
+  const { bed, player, streamer } = await setUp();
+  const positions: unknown[] = [];
+  bed.group.activeSession!.on("stream-command", ({ position }) =>
+    positions.push(position),
+  );
+  await bed.run();
+
+  player.client.sendStreamCommand("seek", -1000000);
+  player.client.sendStreamCommand("seek", 1000000);
+  await bed.run();
+  assert.deepEqual(positions, [1000000]);
+  streamer.stop();
+});
+
+// Positions are extrapolated from synced clocks, allow a little error
+function assertPosition(actual: number | null, expected: number) {
+  assert.ok(actual !== null, "no position published");
+  assert.ok(
+    Math.abs(actual - expected) <= 1000,
+    `position ${actual} is not ${expected}`,
+  );
+}
+
+test("players extrapolate the position while playing", async () => {
+  const { bed, player, streamer } = await setUp();
+  const start = bed.clock.now() + 500000;
+
+  await bed.run(1500000);
+  assertPosition(player.client.getPosition(), bed.clock.now() - start);
+  await bed.run(2000000);
+  assertPosition(player.client.getPosition(), bed.clock.now() - start);
+  streamer.stop();
+});
+
+test("the position stops where the session paused", async () => {
+  const { bed, player, session, streamer } = await setUp();
+  const start = bed.clock.now() + 500000;
+
+  await bed.run(1000000);
+  session.pause();
+  const flushedAt = bed.clock.now() + 200000;
+  await bed.run(1000000);
+  assertPosition(player.client.getPosition(), flushedAt - start);
+  await bed.run(1000000);
+  assertPosition(player.client.getPosition(), flushedAt - start);
+  streamer.stop();
+});
+
+test("the position continues from where the session seeked to", async () => {
+  const { bed, player, session, streamer } = await setUp();
+
+  await bed.run(1000000);
+  session.seek(10000000);
+  const flushedAt = bed.clock.now() + 200000;
+  await bed.run(1000000);
+  assertPosition(
+    player.client.getPosition(),
+    10000000 + bed.clock.now() - flushedAt,
+  );
+  streamer.stop();
+});
+
+test("the position doesn't pass the duration", async () => {
+  const { bed, player, done } = await setUp(2000000);
+
+  await bed.run(5000000);
+  await done;
+  assert.equal(player.client.getPosition(), 2000000);
+});
+
+// Listeners the session keeps for streamers following it
+const streamerListeners = (session: object) => {
+  const { _listeners: listeners } = session as {
+    _listeners: Record<string, unknown[] | undefined>;
+  };
+  return ["session-end", "pause", "resume", "seek"].reduce(
+    (count, event) => count + (listeners[event]?.length ?? 0),
+    0,
+  );
+};
+
+test("streamers stop following the session when they finish", async () => {
+  const { bed, session, streamer, done } = await setUp(1000000);
+  const baseline = streamerListeners(session) - 4;
+  await bed.run(2000000);
+  await done;
+  assert.equal(streamer.state, "ended");
+  assert.equal(streamerListeners(session), baseline);
+
+  const stopped = new AudioStreamer(session, source(0));
+  stopped.stop();
+  assert.equal(streamerListeners(session), baseline);
+
+  const sessionEnded = new AudioStreamer(session, source(0));
+  const ended = sessionEnded.start();
+  await bed.run();
+  session.end();
+  await ended;
+  assert.equal(sessionEnded.state, "stopped");
+  assert.equal(streamerListeners(session), baseline);
+});
+
+test("a source that fails stops the streamer with an error", async () => {
+  const bed = new TestBed();
+  const player = await bed.connect("kitchen", new RecordingSink());
+  const session = bed.group.startSession("pcm_float", SAMPLE_RATE, 2, 32);
+  const failure = new Error("read failed");
+  async function* failing() {
+    yield* source(0, 1000000);
+    throw failure;
+  }
+  const streamer = new AudioStreamer(session, failing());
+  const errors: unknown[] = [];
+  const ends: Array<{ stopped: boolean }> = [];
+  streamer.on("error", (error) => errors.push(error));
+  streamer.on("end", (end) => ends.push(end));
+  const done = streamer.start();
+
+  await bed.run(2000000);
+  await done;
+  assert.deepEqual(errors, [failure]);
+  assert.deepEqual(ends, [{ stopped: true }]);
+  assert.equal(streamer.state, "stopped");
+  // Audio read before the failure still plays
+  assert.equal(playedFrames(player.sink).length, SAMPLE_RATE);
+});
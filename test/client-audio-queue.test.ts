@@ -0,0 +1,140 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FakeClock } from "../src/util/clock.js";
+import {
+  AudioPacket,
+  ClientAudioQueue,
+  FlowControlOptions,
+} from "../src/server/client-audio-queue.js";
+import type { ServerClient } from "../src/server/server-client.js";
+
+// The parts of a ServerClient the queue uses, recording what it sent
+class FakeClient {
+  public bufferedAmount = 0;
+  public ready = true;
+  public sent: number[] = [];
+
+  constructor(public playerInfo: { buffer_capacity: number }) {}
+
+  isReady() {
+    return this.ready;
+  }
+
+  sendBinary(data: ArrayBuffer) {
+    this.sent.push(new Uint8Array(data)[0]);
+  }
+}
+
+// A packet of 100 bytes playing for a second from the given second, its
+// first byte tells which
+const packet = (second: number): AudioPacket => {
+  const data = new Uint8Array(100);
+  data[0] = second;
+  return {
+    data: data.buffer,
+    timestamp: second * 1000000,
+    duration: 1000000,
+  };
+};
+
+function setUp(capacity: number, options: Partial<FlowControlOptions> = {}) {
+  const clock = new FakeClock(0);
+  const client = new FakeClient({ buffer_capacity: capacity });
+  const slow: number[] = [];
+  const queue = new ClientAudioQueue(
+    client as unknown as ServerClient,
+    { slowClientPolicy: "resync", maxSocketBuffer: 1000, ...options },
+    (bufferedAmount) => slow.push(bufferedAmount),
+    clock,
+  );
+  return { clock, client, queue, slow };
+}
+
+test("packets are sent up to the buffer capacity of the client", () => {
+  const { clock, client, queue } = setUp(250);
+
+  for (let second = 0; second < 4; second++) {
+    queue.enqueue(packet(second));
+  }
+  assert.deepEqual(client.sent, [0, 1]);
+  assert.equal(queue.unplayedBytes, 200);
+
+  // Room for one more once the first packet played
+  clock.advance(1000000);
+  assert.deepEqual(client.sent, [0, 1, 2]);
+  clock.advance(1000000);
+  assert.deepEqual(client.sent, [0, 1, 2, 3]);
+});
+
+test("a packet larger than the capacity is still sent", () => {
+  const { client, queue } = setUp(10);
+
+  queue.enqueue(packet(0));
+  assert.deepEqual(client.sent, [0]);
+});
+
+test("packets whose play time passed are not sent", () => {
+  const { clock, client, queue } = setUp(1000);
+  client.ready = false;
+
+  queue.enqueue(packet(0));
+  queue.enqueue(packet(1));
+  clock.advance(1500000);
+  client.ready = true;
+  queue.flush();
+  assert.deepEqual(client.sent, [1]);
+});
+
+test("flushed audio is not sent and frees the capacity", () => {
+  const { clock, client, queue } = setUp(200);
+
+  for (let second = 0; second < 4; second++) {
+    queue.enqueue(packet(second));
+  }
+  queue.discardFrom(1000000);
+  assert.equal(queue.unplayedBytes, 100);
+  queue.enqueue(packet(5));
+  assert.deepEqual(client.sent, [0, 1, 5]);
+  clock.advance(10000000);
+  assert.deepEqual(client.sent, [0, 1, 5]);
+});
+
+test("slow clients are reported once and caught up when they drained", () => {
+  const { clock, client, queue, slow } = setUp(1000);
+  client.bufferedAmount = 5000;
+
+  queue.enqueue(packet(0));
+  queue.enqueue(packet(1));
+  clock.advance(1500000);
+  assert.equal(queue.isCongested, true);
+  assert.deepEqual(slow, [5000]);
+  assert.deepEqual(client.sent, []);
+
+  client.bufferedAmount = 0;
+  clock.advance(100000);
+  assert.equal(queue.isCongested, false);
+  assert.deepEqual(slow, [5000]);
+  // The first packet played while the socket was congested
+  assert.deepEqual(client.sent, [1]);
+});
+
+test("audio is skipped while a client is slow when skipping", () => {
+  const { clock, client, queue } = setUp(1000, { slowClientPolicy: "skip" });
+  client.bufferedAmount = 5000;
+
+  queue.enqueue(packet(1));
+  client.bufferedAmount = 0;
+  clock.advance(100000);
+  queue.enqueue(packet(2));
+  assert.deepEqual(client.sent, [2]);
+});
+
+test("closing stops sending", () => {
+  const { clock, client, queue } = setUp(100);
+
+  queue.enqueue(packet(0));
+  queue.enqueue(packet(1));
+  queue.close();
+  clock.advance(2000000);
+  assert.deepEqual(client.sent, [0]);
+});
@@ -0,0 +1,231 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Metadata } from "../src/messages.js";
+import { NullSink } from "../src/client/sinks.js";
+import { TestBed } from "./helpers.js";
+
+const SAMPLE_RATE = 48000;
+
+const METADATA: Metadata = {
+  title: "Song",
+  artist: null,
+  album: null,
+  year: null,
+  track: null,
+  group_members: [],
+  support_commands: [],
+  repeat: "off",
+  shuffle: false,
+};
+
+// Planar stereo audio of the given number of frames
+const audio = (frames: number) => [
+  new Float32Array(frames).fill(0.5),
+  new Float32Array(frames).fill(-0.5),
+];
+
+test("a player says hello and joins the group", async () => {
+  const bed = new TestBed();
+  const { client } = await bed.connect("kitchen");
+
+  assert.equal(client.connectionState, "connected");
+  assert.ok(client.protocolVersion !== null);
+  assert.deepEqual([...bed.group.clients.keys()], ["kitchen"]);
+});
+
+test("players receive session/start when a session starts", async () => {
+  const bed = new TestBed();
+  const { client } = await bed.connect("kitchen");
+  const sessions: unknown[] = [];
+  client.on("session-update", (session) => sessions.push(session));
+
+  const session = bed.group.startSession("pcm", SAMPLE_RATE, 2, 16);
+  session.sendMetadata(METADATA);
+  await bed.run();
+
+  assert.equal(sessions.length, 1);
+  assert.equal(
+    (sessions[0] as { session_id: string }).session_id,
+    session.sessionInfo.session_id,
+  );
+  assert.equal(client.playerState.state, "buffering");
+});
+
+test("audio plays at its server timestamp", async () => {
+  const bed = new TestBed();
+  const { client, sink } = await bed.connect("kitchen");
+  const session = bed.group.startSession("pcm", SAMPLE_RATE, 2, 16);
+  await bed.run();
+
+  const start = bed.clock.now() + 500000;
+  for (let i = 0; i < 10; i++) {
+    session.sendPCMAudioChunk(audio(2400), start + i * 50000);
+  }
+  await bed.run(700000);
+  assert.equal(client.playerState.state, "playing");
+  await bed.run(500000);
+
+  assert.ok(sink.writes.length > 0);
+  assert.equal(sink.writes[0].startTime, start / 1000000);
+  const frames = sink.writes.reduce((total, write) => total + write.frames, 0);
+  assert.equal(frames, 24000);
+});
+
+test("players report pausing and resuming of the session", async () => {
+  const bed = new TestBed();
+  const { client } = await bed.connect("kitchen");
+  const states: string[] = [client.playerState.state];
+  client.on("state-update", ({ state }) => states.push(state));
+  const session = bed.group.startSession("pcm", SAMPLE_RATE, 2, 16);
+  await bed.run();
+
+  const start = bed.clock.now() + 500000;
+  for (let i = 0; i < 20; i++) {
+    session.sendPCMAudioChunk(audio(2400), start + i * 50000);
+  }
+  await bed.run(700000);
+  session.pause();
+  await bed.run(500000);
+  assert.deepEqual(states, ["idle", "buffering", "playing", "paused"]);
+
+  session.resume();
+  const resumeAt = bed.clock.now() + 500000;
+  for (let i = 0; i < 10; i++) {
+    session.sendPCMAudioChunk(audio(2400), resumeAt + i * 50000);
+  }
+  await bed.run(600000);
+  assert.deepEqual(states, [
+    "idle",
+    "buffering",
+    "playing",
+    "paused",
+    "buffering",
+    "playing",
+  ]);
+});
+
+test("session/end stops playback on the players", async () => {
+  const bed = new TestBed();
+  const { client } = await bed.connect("kitchen");
+  const session = bed.group.startSession("pcm", SAMPLE_RATE, 2, 16);
+  await bed.run();
+
+  session.end();
+  await bed.run();
+
+  assert.equal(client.playerState.state, "idle");
+  assert.equal(bed.group.activeSession, null);
+});
+
+test("a player that reconnects receives the active session again", async () => {
+  const bed = new TestBed();
+  const first = await bed.connect("kitchen");
+  const session = bed.group.startSession("pcm", SAMPLE_RATE, 2, 16);
+  session.sendMetadata(METADATA);
+  await bed.run();
+  assert.equal(first.client.playerState.state, "buffering");
+
+  // The connection drops without the player closing it
+  bed.transports[0].terminate();
+  await bed.run();
+  assert.equal(session.sessionActive.has("kitchen"), false);
+
+  // Rejoining the group the server put it back in changes nothing
+  let added = 0;
+  bed.group.on("client-added", () => added++);
+  const second = await bed.connect("kitchen");
+  assert.equal(added, 1);
+  assert.equal(second.client.playerState.state, "buffering");
+  assert.equal(second.client.getPosition(), null);
+
+  const start = bed.clock.now() + 500000;
+  session.sendPCMAudioChunk(audio(2400), start);
+  await bed.run(1000000);
+  assert.equal(second.sink.writes.length, 1);
+  assert.equal(second.sink.writes[0].startTime, start / 1000000);
+});
+
+test("the old connection closing does not affect a new one", async () => {
+  const bed = new TestBed();
+  const { client } = await bed.connect("kitchen");
+  const session = bed.group.startSession("pcm", SAMPLE_RATE, 2, 16);
+  session.sendMetadata(METADATA);
+  await bed.run();
+
+  // The server closes the old connection when the new one says hello
+  client.connect(true);
+  await bed.run();
+  assert.equal(bed.transports.length, 2);
+  assert.equal(bed.transports[0].isOpen, false);
+  assert.equal(client.connectionState, "connected");
+  assert.equal(client.playerState.state, "buffering");
+
+  // Time sync and sync reports continue on the new connection
+  await bed.run(6000000);
+  assert.notEqual(bed.group.clients.get("kitchen")!.syncInfo, null);
+});
+
+test("players report how well they are synced", async () => {
+  const bed = new TestBed();
+  await bed.connect("kitchen");
+
+  await bed.run(6000000);
+  const { syncInfo } = bed.group.clients.get("kitchen")!;
+  assert.ok(syncInfo);
+  // The loopback connection has no delay
+  assert.equal(syncInfo.rtt, 0);
+  assert.equal(syncInfo.drift_ppm, 0);
+  assert.equal(syncInfo.sync_error, null);
+});
+
+test("a player replaced by a new connection does not reconnect", async () => {
+  const bed = new TestBed();
+  const first = await bed.connect("kitchen", new NullSink(), { reconnect: {} });
+  const second = await bed.connect("kitchen", new NullSink(), {
+    reconnect: {},
+  });
+
+  await bed.run(20000000);
+  assert.equal(bed.transports.length, 2);
+  assert.equal(first.client.connectionState, "disconnected");
+  assert.equal(second.client.connectionState, "connected");
+  assert.equal(bed.group.clients.size, 1);
+});
+
+test("a player turned away as a duplicate does not reconnect", async () => {
+  const bed = new TestBed();
+  bed.server.duplicatePlayerPolicy = "reject";
+  const first = await bed.connect("kitchen", new NullSink(), { reconnect: {} });
+  const second = await bed.connect("kitchen", new NullSink(), {
+    reconnect: {},
+  });
+
+  await bed.run(20000000);
+  assert.equal(bed.transports.length, 2);
+  assert.equal(first.client.connectionState, "connected");
+  assert.equal(second.client.connectionState, "disconnected");
+});
+
+test("a player dropped for being slow backs off before reconnecting", async () => {
+  const bed = new TestBed();
+  const { client } = await bed.connect("kitchen", new NullSink(), {
+    reconnect: {},
+  });
+  const session = bed.group.startSession("pcm", SAMPLE_RATE, 2, 16);
+  session.slowClientPolicy = "drop";
+  // The socket is backed up
+  (bed.transports[0] as { bufferedAmount: number }).bufferedAmount =
+    session.maxSocketBuffer + 1;
+
+  session.sendPCMAudioChunk(audio(2400), bed.clock.now() + 500000);
+  await bed.run(1000000);
+  assert.equal(bed.transports[0].isOpen, false);
+  assert.equal(client.connectionState, "reconnecting");
+  await bed.run(8000000);
+  assert.equal(bed.transports.length, 1);
+
+  await bed.run(15000000);
+  assert.equal(bed.transports.length, 2);
+  assert.equal(client.connectionState, "connected");
+  assert.equal(session.sessionActive.has("kitchen"), true);
+});
@@ -0,0 +1,143 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Resampler, convertChannels } from "../src/audio/convert.js";
+
+const channel = (...samples: number[]) => Float32Array.from(samples);
+
+const sine = (frequency: number, sampleRate: number, frames: number) =>
+  Float32Array.from({ length: frames }, (_, i) =>
+    Math.sin((2 * Math.PI * frequency * i) / sampleRate),
+  );
+
+const rms = (samples: Float32Array) =>
+  Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+
+function assertNear(actual: number, expected: number, tolerance = 1e-6) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `${actual} is not within ${tolerance} of ${expected}`,
+  );
+}
+
+// Resample audio split into chunks of the given sizes, one channel
+function resampleChunks(
+  resampler: Resampler,
+  input: Float32Array,
+  sizes: number[],
+): Float32Array {
+  const output: number[] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    const [chunk] = resampler.process([input.subarray(offset, offset + size)]);
+    output.push(...chunk);
+    offset += size;
+  }
+  return Float32Array.from(output);
+}
+
+test("the channel count is left alone when it matches", () => {
+  const data = [channel(1), channel(2)];
+  assert.equal(convertChannels(data, 2), data);
+});
+
+test("mono plays on the front left and right speakers", () => {
+  const [left, right, centre] = convertChannels([channel(0.5, -0.5)], 3);
+  assert.deepEqual([...left], [0.5, -0.5]);
+  assert.deepEqual([...right], [0.5, -0.5]);
+  assert.deepEqual([...centre], [0, 0]);
+});
+
+test("downmixing to mono averages all channels", () => {
+  const [mono] = convertChannels([channel(1, 0.5), channel(0, -0.5)], 1);
+  assert.deepEqual([...mono], [0.5, 0]);
+});
+
+test("5.1 is mixed to stereo without the LFE channel", () => {
+  const [left, right] = convertChannels(
+    [channel(1), channel(0), channel(1), channel(1), channel(0), channel(1)],
+    2,
+  );
+  const scale = 1 / (1 + Math.SQRT2);
+  assertNear(left[0], (1 + Math.SQRT1_2) * scale);
+  assertNear(right[0], (Math.SQRT1_2 + Math.SQRT1_2) * scale);
+});
+
+test("upmixing keeps the channels in place and leaves the others silent", () => {
+  const output = convertChannels([channel(0.1), channel(0.2)], 4);
+  assert.deepEqual(
+    output.map((c) => c[0]),
+    [0.1, 0.2, 0, 0].map(Math.fround),
+  );
+});
+
+test("other downmixes fold the extra channels onto the available ones", () => {
+  const output = convertChannels(
+    [channel(0.2), channel(0.4), channel(0.6), channel(0.8)],
+    3,
+  );
+  assert.deepEqual(
+    output.map((c) => Math.round(c[0] * 10) / 10),
+    [0.5, 0.4, 0.6],
+  );
+});
+
+test("a matching rate is passed through", () => {
+  const data = [channel(1, 2, 3)];
+  assert.equal(new Resampler(48000, 48000).process(data), data);
+});
+
+test("upsampling interpolates across chunk borders", () => {
+  // A ramp stays a ramp at twice the rate
+  const ramp = Float32Array.from({ length: 100 }, (_, i) => i / 100);
+  const output = resampleChunks(
+    new Resampler(24000, 48000),
+    ramp,
+    [1, 7, 30, 62],
+  );
+
+  // The last input sample is interpolated from once the next chunk arrives
+  assert.equal(output.length, 198);
+  output.forEach((sample, i) => assertNear(sample, i / 200));
+});
+
+test("chunking doesn't change the result or lose samples", () => {
+  const input = sine(1000, 48000, 48000);
+  const whole = resampleChunks(new Resampler(48000, 44100), input, [48000]);
+  const chunked = resampleChunks(
+    new Resampler(48000, 44100),
+    input,
+    Array(10).fill(4800),
+  );
+
+  assert.ok(Math.abs(whole.length - 44100) <= 1);
+  assert.equal(chunked.length, whole.length);
+  chunked.forEach((sample, i) => assertNear(sample, whole[i], 1e-5));
+});
+
+test("downsampling passes low frequencies", () => {
+  const output = resampleChunks(
+    new Resampler(48000, 16000),
+    sine(1000, 48000, 48000),
+    Array(10).fill(4800),
+  );
+  assert.ok(Math.abs(output.length - 16000) <= 1);
+  // Skip the filter settling
+  assertNear(rms(output.subarray(1600)), Math.SQRT1_2, 0.02);
+});
+
+test("downsampling filters what the lower rate can't represent", () => {
+  // Would alias to 4kHz at 16kHz
+  const output = resampleChunks(
+    new Resampler(48000, 16000),
+    sine(20000, 48000, 48000),
+    Array(10).fill(4800),
+  );
+  assert.ok(rms(output.subarray(1600)) < 0.01);
+});
+
+test("the input is not modified", () => {
+  const input = sine(20000, 48000, 480);
+  const copy = input.slice();
+  new Resampler(48000, 16000).process([input]);
+  assert.deepEqual(input, copy);
+});
@@ -0,0 +1,265 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FlacEncoder } from "../src/audio/flac-encoder.js";
+
+class BitReader {
+  public pos = 0;
+
+  constructor(public readonly bytes: Uint8Array) {}
+
+  read(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const bit = (this.bytes[this.pos >> 3] >> (7 - (this.pos & 7))) & 1;
+      value = value * 2 + bit;
+      this.pos++;
+    }
+    return value;
+  }
+
+  readSigned(count: number): number {
+    const value = this.read(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  readUnary(): number {
+    let value = 0;
+    while (this.read(1) === 0) {
+      value++;
+    }
+    return value;
+  }
+
+  alignToByte() {
+    this.pos = Math.ceil(this.pos / 8) * 8;
+  }
+}
+
+// Same polynomials as the encoder, computed bit by bit
+function crc(bytes: Uint8Array, width: 8 | 16, polynomial: number): number {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value =
+        value & top ? ((value << 1) ^ polynomial) & mask : (value << 1) & mask;
+    }
+  }
+  return value;
+}
+
+interface DecodedFrame {
+  firstSample: number;
+  sampleRate: number;
+  channelData: number[][];
+}
+
+// Decode a frame as the encoder writes them: variable block size, 16-bit
+// block size, independent channels and constant, verbatim or fixed
+// subframes.
+function decodeFrame(frame: Uint8Array, bitDepth: number): DecodedFrame {
+  const reader = new BitReader(frame);
+  assert.equal(reader.read(14), 0x3ffe, "sync code");
+  reader.read(1);
+  assert.equal(reader.read(1), 1, "variable block size");
+  assert.equal(reader.read(4), 0b0111);
+  const sampleRateCode = reader.read(4);
+  const channels = reader.read(4) + 1;
+  reader.read(4);
+
+  let extraBytes = 0;
+  while (reader.read(1) === 1) {
+    extraBytes++;
+  }
+  let firstSample = reader.read(7 - extraBytes);
+  for (let i = 1; i < extraBytes; i++) {
+    assert.equal(reader.read(2), 0b10);
+    firstSample = firstSample * 64 + reader.read(6);
+  }
+  const blockSize = reader.read(16) + 1;
+  const sampleRate =
+    sampleRateCode === 0b1100
+      ? reader.read(8) * 1000
+      : sampleRateCode === 0b1101
+      ? reader.read(16)
+      : sampleRateCode === 0b1110
+      ? reader.read(16) * 10
+      : ({ 0b1001: 44100, 0b1010: 48000 } as Record<number, number>)[
+          sampleRateCode
+        ];
+  assert.equal(
+    reader.read(8),
+    crc(frame.subarray(0, reader.pos / 8 - 1), 8, 0x07),
+    "header CRC",
+  );
+
+  const channelData: number[][] = [];
+  for (let c = 0; c < channels; c++) {
+    channelData.push(decodeSubframe(reader, blockSize, bitDepth));
+  }
+  reader.alignToByte();
+  const end = reader.pos / 8;
+  assert.equal(reader.read(16), crc(frame.subarray(0, end), 16, 0x8005));
+  assert.equal(end + 2, frame.length);
+  return { firstSample, sampleRate, channelData };
+}
+
+function decodeSubframe(
+  reader: BitReader,
+  blockSize: number,
+  bitDepth: number,
+): number[] {
+  assert.equal(reader.read(1), 0);
+  const type = reader.read(6);
+  assert.equal(reader.read(1), 0, "wasted bits");
+  if (type === 0) {
+    return new Array(blockSize).fill(reader.readSigned(bitDepth));
+  }
+  const samples: number[] = [];
+  if (type === 1) {
+    for (let i = 0; i < blockSize; i++) {
+      samples.push(reader.readSigned(bitDepth));
+    }
+    return samples;
+  }
+  assert.equal(type & 0b111000, 0b001000, "fixed predictor");
+  const order = type & 0b111;
+  for (let i = 0; i < order; i++) {
+    samples.push(reader.readSigned(bitDepth));
+  }
+  assert.equal(reader.read(2), 0, "4-bit Rice parameters");
+  const partitionOrder = reader.read(4);
+  const partitionSize = blockSize >> partitionOrder;
+  const residual: number[] = [];
+  for (let p = 0; p < 1 << partitionOrder; p++) {
+    const parameter = reader.read(4);
+    const count = p === 0 ? partitionSize - order : partitionSize;
+    for (let i = 0; i < count; i++) {
+      const value =
+        reader.readUnary() * 2 ** parameter + reader.read(parameter);
+      residual.push(value % 2 === 0 ? value / 2 : -(value + 1) / 2);
+    }
+  }
+  const coefficients = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]][order];
+  for (const value of residual) {
+    const n = samples.length;
+    samples.push(
+      coefficients.reduce((sum, k, j) => sum + k * samples[n - 1 - j], value),
+    );
+  }
+  return samples;
+}
+
+// A sine wave of the given bit depth, one array per channel
+function sine(frames: number, channels: number, bitDepth: number) {
+  const amplitude = 2 ** (bitDepth - 1) * 0.8;
+  return Array.from({ length: channels }, (_, c) =>
+    Int32Array.from({ length: frames }, (_, i) =>
+      Math.round(amplitude * Math.sin((i * (c + 1) * 2 * Math.PI) / 100)),
+    ),
+  );
+}
+
+test("frames decode to the encoded samples", () => {
+  for (const bitDepth of [16, 24]) {
+    const encoder = new FlacEncoder(48000, 2, bitDepth);
+    const channelData = sine(4800, 2, bitDepth);
+
+    const frame = encoder.encodeFrame(channelData);
+    const decoded = decodeFrame(frame, bitDepth);
+    assert.equal(decoded.sampleRate, 48000);
+    assert.deepEqual(
+      decoded.channelData,
+      channelData.map((channel) => [...channel]),
+    );
+    // Smooth audio compresses well with the fixed predictors
+    assert.ok(frame.length < 4800 * 2 * (bitDepth / 8) * 0.5);
+  }
+});
+
+test("silence, noise and extreme values round trip", () => {
+  const encoder = new FlacEncoder(44100, 3, 16);
+  let seed = 1;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+  const channelData = [
+    new Int32Array(1000),
+    Int32Array.from(
+      { length: 1000 },
+      () => Math.floor(random() * 65536) - 32768,
+    ),
+    Int32Array.from({ length: 1000 }, (_, i) => (i % 2 ? 32767 : -32768)),
+  ];
+
+  const decoded = decodeFrame(encoder.encodeFrame(channelData), 16);
+  assert.equal(decoded.sampleRate, 44100);
+  assert.deepEqual(
+    decoded.channelData,
+    channelData.map((channel) => [...channel]),
+  );
+});
+
+test("short blocks are padded to the minimum block size", () => {
+  const encoder = new FlacEncoder(48000, 1, 16);
+  const firstSamples: number[] = [];
+  for (const samples of [[1], [1, -5], [3, 1, 4, 1, 5, 9, 2]]) {
+    const channelData = [Int32Array.from(samples)];
+    const decoded = decodeFrame(encoder.encodeFrame(channelData), 16);
+    const padding = new Array(16 - samples.length).fill(
+      samples[samples.length - 1],
+    );
+    assert.deepEqual(decoded.channelData, [[...samples, ...padding]]);
+    firstSamples.push(decoded.firstSample);
+  }
+  // Numbered by the padded frames
+  assert.deepEqual(firstSamples, [0, 16, 32]);
+});
+
+test("frames are numbered by their first sample", () => {
+  const encoder = new FlacEncoder(48000, 1, 16);
+  const firstSamples: number[] = [];
+  for (let i = 0; i < 30; i++) {
+    const frame = encoder.encodeFrame(sine(4800, 1, 16));
+    firstSamples.push(decodeFrame(frame, 16).firstSample);
+  }
+  assert.deepEqual(
+    firstSamples,
+    firstSamples.map((_, i) => i * 4800),
+  );
+});
+
+test("sample rates without a code are stored in the frame", () => {
+  for (const sampleRate of [11000, 11025, 100000]) {
+    const encoder = new FlacEncoder(sampleRate, 1, 16);
+    const frame = encoder.encodeFrame(sine(100, 1, 16));
+    assert.equal(decodeFrame(frame, 16).sampleRate, sampleRate);
+  }
+});
+
+test("the stream info describes the stream", () => {
+  const reader = new BitReader(new FlacEncoder(96000, 6, 24).streamInfo);
+
+  assert.equal(reader.read(32), 0x664c6143);
+  assert.equal(reader.read(1), 1, "last metadata block");
+  assert.equal(reader.read(7), 0, "STREAMINFO");
+  assert.equal(reader.read(24), 34);
+  assert.equal(reader.bytes.length, 42);
+  assert.equal(reader.read(16), 16, "minimum block size");
+  assert.equal(reader.read(16), 65535, "maximum block size");
+  reader.read(24 + 24);
+  assert.equal(reader.read(20), 96000);
+  assert.equal(reader.read(3) + 1, 6);
+  assert.equal(reader.read(5) + 1, 24);
+});
+
+test("unsupported formats are rejected", () => {
+  assert.throws(() => new FlacEncoder(48000, 2, 8), /bit depth 8/);
+  assert.throws(() => new FlacEncoder(48000, 9, 16), /channel count 9/);
+  const encoder = new FlacEncoder(48000, 2, 16);
+  assert.throws(() => encoder.encodeFrame(sine(10, 1, 16)), /Channel mismatch/);
+  assert.throws(() => encoder.encodeFrame(sine(0, 2, 16)), /block size 0/);
+});
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FakeClock } from "../src/util/clock.js";
+import { HeadlessOutput } from "../src/client/headless-output.js";
+import { NullSink } from "../src/client/sinks.js";
+import type { PlaybackStats } from "../src/client/audio-output.js";
+
+const SAMPLE_RATE = 48000;
+
+const chunk = (seconds: number) => ({
+  timestamp: 0,
+  sampleRate: SAMPLE_RATE,
+  channelData: [
+    new Float32Array(seconds * SAMPLE_RATE),
+    new Float32Array(seconds * SAMPLE_RATE),
+  ],
+});
+
+function createOutput() {
+  const clock = new FakeClock(1000000);
+  const sink = new NullSink();
+  const output = new HeadlessOutput(sink, { clock });
+  const stats: PlaybackStats[] = [];
+  output.on("stats", (s) => stats.push(s));
+  return { clock, sink, output, stats };
+}
+
+test("audio is handed to the sink lead seconds before it is due", () => {
+  const { clock, sink, output } = createOutput();
+  output.enqueue(1.5, chunk(0.5));
+  output.enqueue(2, chunk(0.5));
+
+  clock.advance(350000);
+  assert.equal(sink.writes.length, 0);
+  clock.advance(100000);
+  assert.deepEqual(sink.writes, [
+    { startTime: 1.5, frames: 24000, sampleRate: SAMPLE_RATE },
+  ]);
+  clock.advance(1000000);
+  assert.equal(sink.writes.length, 2);
+  assert.equal(sink.writes[1].startTime, 2);
+});
+
+test("late audio is dropped", () => {
+  const { clock, sink, output, stats } = createOutput();
+  output.enqueue(0.9, chunk(0.5));
+
+  clock.advance(10000);
+  assert.equal(sink.writes[0].startTime, 1);
+  assert.equal(sink.writes[0].frames, 19200);
+  assert.equal(stats[stats.length - 1].droppedFrames, 4800);
+});
+
+test("a flush keeps queued audio before the flush time", () => {
+  const { clock, sink, output } = createOutput();
+  output.enqueue(1.5, chunk(1));
+  output.flush(1.75);
+
+  clock.advance(1000000);
+  assert.deepEqual(sink.writes, [
+    { startTime: 1.5, frames: 12000, sampleRate: SAMPLE_RATE },
+  ]);
+});
+
+test("a flush before frames that were dropped does not bring them back", () => {
+  const { clock, sink, output, stats } = createOutput();
+  output.enqueue(1.05, chunk(1));
+  // Overlaps the first chunk by half a second
+  output.enqueue(1.55, chunk(1));
+  // The overlap is dropped once the second chunk is due
+  clock.advance(600000);
+  assert.equal(stats[stats.length - 1].droppedFrames, 24000);
+
+  output.flush(1.8);
+  clock.advance(1500000);
+  assert.equal(sink.writes.length, 1);
+  assert.equal(stats[stats.length - 1].droppedFrames, 24000);
+});
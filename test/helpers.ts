@@ -0,0 +1,177 @@
+import type { Logger } from "../src/logging.js";
+import type { PlayerInfo } from "../src/messages.js";
+import { FakeClock } from "../src/util/clock.js";
+import { Client, PlayerOptions } from "../src/client/client.js";
+import { AudioSink, HeadlessOutput } from "../src/client/headless-output.js";
+import { NullSink } from "../src/client/sinks.js";
+import { MusicServer } from "../src/server/music-server.js";
+import { HeartbeatOptions, ServerClient } from "../src/server/server-client.js";
+import { ServerGroup } from "../src/server/server-group.js";
+import {
+  LoopbackSocket,
+  createLoopbackWebSocket,
+} from "../src/server/loopback-transport.js";
+import type { Transport } from "../src/server/transport.js";
+
+export const silentLogger: Logger = {
+  log: () => {},
+  error: () => {},
+};
+
+// Run promise callbacks and I/O that is waiting.
+export const nextTick = () =>
+  new Promise<void>((resolve) => setImmediate(resolve));
+
+// Move a fake clock forward by duration microseconds in steps, letting
+// messages be delivered and promise callbacks run at every step.
+export async function advance(
+  clock: FakeClock,
+  duration: number = 0,
+  step: number = 1000,
+) {
+  let remaining = duration;
+  do {
+    const delta = Math.min(step, remaining);
+    clock.advance(delta);
+    remaining -= delta;
+    // Deliveries can cause more deliveries at the same time
+    for (let i = 0; i < 5; i++) {
+      await nextTick();
+      clock.advance(0);
+    }
+  } while (remaining > 0);
+}
+
+export const PLAYER_HELLO: PlayerInfo = {
+  player_id: "kitchen",
+  name: "Kitchen",
+  role: "player",
+  buffer_capacity: 1000000,
+  support_codecs: ["pcm"],
+  support_channels: [2],
+  support_sample_rates: [48000],
+  support_bit_depth: [16],
+  support_streams: ["music"],
+  support_picture_formats: [],
+  media_display_size: null,
+};
+
+// A ServerClient talking to a player whose messages the test writes by hand
+// on the socket. Records what the server sent.
+export async function connectRawPlayer(
+  clock: FakeClock,
+  hello: Partial<PlayerInfo> = {},
+  heartbeat: HeartbeatOptions | false = false,
+) {
+  const socket = new LoopbackSocket(clock);
+  const client = new ServerClient(
+    socket.transport,
+    silentLogger,
+    heartbeat,
+    clock,
+  );
+  // Text messages parsed, binary ones as is
+  const received: Array<{ type: string; payload?: unknown }> = [];
+  const binary: ArrayBuffer[] = [];
+  const closed: Array<{ code: number; reason: string }> = [];
+  socket.addEventListener("message", ({ data }) => {
+    if (typeof data === "string") {
+      received.push(JSON.parse(data));
+    } else {
+      binary.push(data);
+    }
+  });
+  socket.addEventListener("close", ({ code, reason }) => {
+    closed.push({ code, reason });
+  });
+  await advance(clock);
+  const accepted = client.accept({ source_id: "server", name: "Server" });
+  socket.send(
+    JSON.stringify({
+      type: "player/hello",
+      payload: { ...PLAYER_HELLO, ...hello },
+    }),
+  );
+  await advance(clock);
+  await accepted;
+  return { socket, client, received, binary, closed };
+}
+
+// Remembers the first channel of the audio played and when each frame
+// played, in seconds.
+export class RecordingSink implements AudioSink {
+  public samples: number[] = [];
+  public times: number[] = [];
+
+  write(startTime: number, channelData: Float32Array[], sampleRate: number) {
+    channelData[0].forEach((sample, i) => {
+      this.samples.push(sample);
+      this.times.push(startTime + i / sampleRate);
+    });
+  }
+}
+
+export interface TestPlayer<S extends AudioSink = NullSink> {
+  client: Client;
+  sink: S;
+  output: HeadlessOutput;
+}
+
+// A MusicServer with a single group and players connected to it in the
+// same process, all running on one fake clock.
+export class TestBed {
+  public readonly clock = new FakeClock(1000000);
+  public readonly server = new MusicServer(
+    { source_id: "test-server", name: "Test server" },
+    silentLogger,
+    this.clock,
+  );
+  public readonly group: ServerGroup = this.server.createGroup();
+  // Server end of every connection made, newest last
+  public readonly transports: Transport[] = [];
+  private readonly WebSocket = createLoopbackWebSocket((transport) => {
+    this.transports.push(transport);
+    this.server.addClient(
+      new ServerClient(transport, silentLogger, {}, this.clock),
+    );
+  }, this.clock);
+
+  // Connect a player and let it join the group. Players don't reconnect
+  // unless options say so.
+  async connect(playerId: string): Promise<TestPlayer>;
+  async connect<S extends AudioSink>(
+    playerId: string,
+    sink: S,
+    options?: Partial<PlayerOptions>,
+  ): Promise<TestPlayer<S>>;
+  async connect(
+    playerId: string,
+    sink: AudioSink = new NullSink(),
+    options: Partial<PlayerOptions> = {},
+  ): Promise<TestPlayer<AudioSink>> {
+    const output = new HeadlessOutput(sink, { clock: this.clock });
+    const client = new Client({
+      playerId,
+      url: "ws://test",
+      logger: silentLogger,
+      output,
+      WebSocket: this.WebSocket,
+      clock: this.clock,
+      reconnect: false,
+      ...options,
+    });
+    client.connect();
+    await this.run();
+    // The server can turn players away
+    if (client.connectionState === "connected") {
+      client.joinGroup(this.group.groupId);
+      await this.run();
+    }
+    return { client, sink, output };
+  }
+
+  // Move the clock forward by duration microseconds.
+  run(duration: number = 0) {
+    return advance(this.clock, duration);
+  }
+}
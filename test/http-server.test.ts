@@ -0,0 +1,61 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { HTTPServer } from "../src/server/http-server.js";
+import { MusicServer } from "../src/server/music-server.js";
+import { silentLogger } from "./helpers.js";
+
+// Remembers the paths of the connections it accepted
+class RecordingHTTPServer extends HTTPServer {
+  public paths: string[] = [];
+
+  handleConnection(ws: WebSocket, request: any) {
+    this.paths.push(request.url);
+    ws.close();
+  }
+}
+
+// Open a WebSocket and resolve with whether the upgrade succeeded.
+function tryConnect(url: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const ws = new WebSocket(url);
+    ws.on("open", () => {
+      ws.close();
+      resolve(true);
+    });
+    ws.on("error", () => resolve(false));
+  });
+}
+
+test("attached servers only take upgrades for their path", async () => {
+  const server = createServer();
+  // Another handler for the other paths, as an application would have
+  server.on("upgrade", (request, socket) => {
+    if (request.url !== "/sendspin") {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const httpServer = new RecordingHTTPServer(
+    new MusicServer({ source_id: "server", name: "Server" }, silentLogger),
+    0,
+    silentLogger,
+    false,
+  );
+  httpServer.attach(server, "/sendspin");
+
+  try {
+    assert.equal(await tryConnect(`ws://127.0.0.1:${port}/sendspin`), true);
+    assert.equal(await tryConnect(`ws://127.0.0.1:${port}/other`), false);
+    assert.deepEqual(httpServer.paths, ["/sendspin"]);
+
+    httpServer.stop();
+    assert.equal(server.listenerCount("upgrade"), 1);
+  } finally {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ProtocolError,
+  parseClientMessage,
+  parseServerMessage,
+} from "../src/message-validation.js";
+
+const STATE = {
+  type: "player/state",
+  payload: { state: "playing", volume: 50, muted: false },
+};
+
+// Assert parsing fails with the given error code and message
+function assertRejected(data: string, code: string, message: RegExp) {
+  assert.throws(
+    () => parseClientMessage(data),
+    (err) =>
+      err instanceof ProtocolError &&
+      err.code === code &&
+      message.test(err.message),
+  );
+}
+
+test("valid messages are parsed", () => {
+  assert.deepEqual(parseClientMessage(JSON.stringify(STATE)), STATE);
+  assert.deepEqual(parseClientMessage('{"type":"group/unjoin"}'), {
+    type: "group/unjoin",
+  });
+});
+
+test("invalid JSON is rejected", () => {
+  assertRejected("{", "invalid_json", /not valid JSON/);
+});
+
+test("messages must be objects with a type", () => {
+  assertRejected("[]", "invalid_message", /not an object/);
+  assertRejected("null", "invalid_message", /not an object/);
+  assertRejected('{"payload":{}}', "invalid_message", /no type/);
+  assertRejected('{"type":1}', "invalid_message", /no type/);
+});
+
+test("messages of unknown types are ignored", () => {
+  assert.equal(parseClientMessage('{"type":"player/dance"}'), null);
+  assert.equal(
+    parseServerMessage('{"type":"source/dance","payload":{"speed":2}}'),
+    null,
+  );
+});
+
+test("payloads are validated", () => {
+  assertRejected(
+    JSON.stringify({ ...STATE, payload: { ...STATE.payload, volume: "50" } }),
+    "invalid_message",
+    /^Invalid player\/state payload: volume: expected a number$/,
+  );
+  assertRejected(
+    JSON.stringify({
+      ...STATE,
+      payload: { ...STATE.payload, state: "dancing" },
+    }),
+    "invalid_message",
+    /state: expected one of "idle", "buffering", "playing", "paused"/,
+  );
+  assertRejected(
+    '{"type":"player/time","payload":{"player_transmitted":null}}',
+    "invalid_message",
+    /player_transmitted: expected a number/,
+  );
+});
+
+test("errors in arrays tell the index", () => {
+  assert.throws(
+    () =>
+      parseServerMessage(
+        JSON.stringify({
+          type: "group/list",
+          payload: {
+            groups: [{ groupId: "a", state: "idle" }, { groupId: 1 }],
+          },
+        }),
+      ),
+    /groups\[1\]: groupId: expected a string/,
+  );
+});
+
+test("unknown keys are allowed", () => {
+  const message = { ...STATE, payload: { ...STATE.payload, mood: "happy" } };
+  assert.deepEqual(parseClientMessage(JSON.stringify(message)), message);
+});
+
+test("partial metadata updates are accepted", () => {
+  const message = { type: "metadata/update", payload: { title: "Song" } };
+  assert.deepEqual(parseServerMessage(JSON.stringify(message)), message);
+  assert.throws(
+    () =>
+      parseServerMessage(
+        JSON.stringify({
+          type: "metadata/update",
+          payload: { position: { position: 0, timestamp: 0 } },
+        }),
+      ),
+    /position: rate: expected a number/,
+  );
+});
+
+test("media commands of later versions are ignored", () => {
+  const message = parseServerMessage(
+    JSON.stringify({
+      type: "metadata/update",
+      payload: { support_commands: ["play", "shuffle", "pause"] },
+    }),
+  );
+  assert.deepEqual(message, {
+    type: "metadata/update",
+    payload: { support_commands: ["play", "pause"] },
+  });
+  assert.throws(
+    () =>
+      parseServerMessage(
+        JSON.stringify({
+          type: "metadata/update",
+          payload: { support_commands: ["play", 1] },
+        }),
+      ),
+    /support_commands\[1\]: expected a string/,
+  );
+});
+
+test("seek positions and queue indexes can't be negative", () => {
+  assertRejected(
+    '{"type":"stream/command","payload":{"command":"seek","position":-1}}',
+    "invalid_message",
+    /position: expected a number of at least 0/,
+  );
+  assertRejected(
+    '{"type":"stream/command","payload":{"command":"jump","index":-1}}',
+    "invalid_message",
+    /index: expected a number of at least 0/,
+  );
+});
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeCodecHeader,
+  encodeCodecHeader,
+} from "../src/audio/codec-header.js";
+import { createOpusHead } from "../src/audio/opus.js";
+
+test("the Opus head describes the stream", () => {
+  const head = createOpusHead({ channels: 2, inputSampleRate: 44100 });
+  const view = new DataView(head.buffer);
+  assert.equal(head.length, 19);
+  assert.equal(String.fromCharCode(...head.subarray(0, 8)), "OpusHead");
+  assert.equal(view.getUint8(8), 1, "version");
+  assert.equal(view.getUint8(9), 2, "channels");
+  assert.equal(view.getUint16(10, true), 312, "pre-skip");
+  assert.equal(view.getUint32(12, true), 44100, "input sample rate");
+  assert.equal(view.getInt16(16, true), 0, "output gain");
+  assert.equal(view.getUint8(18), 0, "channel mapping family");
+});
+
+test("only mono and stereo Opus heads can be made", () => {
+  assert.throws(
+    () => createOpusHead({ channels: 3 }),
+    /Unsupported Opus channel count 3/,
+  );
+});
+
+test("codec headers survive the trip through base64", () => {
+  const data = Uint8Array.from({ length: 256 }, (_, i) => i);
+  const header = encodeCodecHeader(data);
+  assert.match(header, /^[A-Za-z0-9+/]+=*$/);
+  assert.deepEqual(decodeCodecHeader(header), data);
+});
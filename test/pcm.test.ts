@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodePCM, encodePCM } from "../src/audio/pcm.js";
+
+const SAMPLES = [0, 0.5, -0.5, 0.25, -0.999, 0.999, 1, -1];
+
+function roundTrip(
+  channelData: Float32Array[],
+  bitDepth: number,
+  isFloat = false,
+) {
+  const data = encodePCM(channelData, bitDepth, isFloat);
+  assert.equal(
+    data.length,
+    (channelData.length * channelData[0].length * bitDepth) / 8,
+  );
+  return decodePCM(
+    new DataView(data.buffer),
+    channelData.length,
+    channelData[0].length,
+    bitDepth,
+    isFloat,
+  );
+}
+
+for (const bitDepth of [16, 24, 32]) {
+  test(`${bitDepth}-bit PCM survives a round trip within one step`, () => {
+    const left = Float32Array.from(SAMPLES);
+    const right = left.map((sample) => -sample / 3);
+    const decoded = roundTrip([left, right], bitDepth);
+    const step = 1 / 2 ** (bitDepth - 1);
+    [left, right].forEach((channel, c) => {
+      channel.forEach((sample, i) => {
+        assert.ok(
+          Math.abs(decoded[c][i] - sample) <= step,
+          `channel ${c} sample ${i}: ${decoded[c][i]} != ${sample}`,
+        );
+      });
+    });
+  });
+
+  test(`${bitDepth}-bit PCM clips samples outside [-1, 1]`, () => {
+    const decoded = roundTrip([Float32Array.from([1.5, -2, 1, -1])], bitDepth);
+    assert.deepEqual(decoded[0][0], decoded[0][2]);
+    assert.deepEqual(decoded[0][1], decoded[0][3]);
+    assert.ok(decoded[0][0] > 0.999 && decoded[0][0] <= 1);
+    assert.ok(decoded[0][1] < -0.999 && decoded[0][1] >= -1);
+  });
+}
+
+test("PCM samples are interleaved little-endian", () => {
+  const data = encodePCM(
+    [Float32Array.from([0.5]), Float32Array.from([-0.5])],
+    16,
+    false,
+  );
+  // 16384 and -16384
+  assert.deepEqual([...data], [0x00, 0x40, 0x00, 0xc0]);
+});
+
+test("24-bit PCM keeps the sign of negative samples", () => {
+  const step = 1 / 2 ** 23;
+  const data = encodePCM([Float32Array.from([-step, -1])], 24, false);
+  assert.deepEqual([...data], [0xff, 0xff, 0xff, 0x00, 0x00, 0x80]);
+
+  const decoded = decodePCM(
+    new DataView(Uint8Array.from([0xff, 0xff, 0xff, 0x00, 0x00, 0x80]).buffer),
+    1,
+    2,
+    24,
+    false,
+  );
+  assert.deepEqual([...decoded[0]], [-step, -1]);
+});
+
+test("float PCM keeps samples exactly", () => {
+  const channel = Float32Array.from([0.1, -0.3, 0.123456, 1e-7]);
+  const decoded = roundTrip([channel], 32, true);
+  assert.deepEqual(decoded[0], channel);
+  assert.deepEqual(
+    [...roundTrip([Float32Array.from([1.5, -2])], 32, true)[0]],
+    [1, -1],
+  );
+});
+
+test("unsupported integer bit depths are rejected when decoding", () => {
+  assert.throws(
+    () => decodePCM(new DataView(new ArrayBuffer(2)), 1, 1, 8, false),
+    /Unsupported PCM bit depth 8/,
+  );
+});
@@ -0,0 +1,115 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PlayQueue } from "../src/server/play-queue.js";
+
+// A queue of items whose data are the given names, with the first current
+function createQueue(names: string[], random?: () => number) {
+  const queue = new PlayQueue<string>(random);
+  for (const name of names) {
+    queue.add({ data: name });
+  }
+  const changes: Array<string | null> = [];
+  queue.on("current-change", (item) => changes.push(item?.data ?? null));
+  return { queue, changes };
+}
+
+const order = (queue: PlayQueue<string>) =>
+  queue.items.map((item) => item.data);
+
+test("the first item added becomes current", () => {
+  const { queue } = createQueue(["a", "b"]);
+  assert.equal(queue.current!.data, "a");
+  assert.equal(queue.currentIndex, 0);
+});
+
+test("next skips forward and stops after the last item", () => {
+  const { queue, changes } = createQueue(["a", "b"]);
+
+  queue.next();
+  queue.next();
+  assert.deepEqual(changes, ["b", null]);
+  assert.equal(queue.current, null);
+  // Nothing to skip from
+  queue.next();
+  assert.deepEqual(changes, ["b", null]);
+});
+
+test("next wraps around when repeating all", () => {
+  const { queue, changes } = createQueue(["a", "b"]);
+  queue.repeat = "all";
+
+  queue.next();
+  queue.next();
+  assert.deepEqual(changes, ["b", "a"]);
+});
+
+test("previous goes back and restarts the first item", () => {
+  const { queue, changes } = createQueue(["a", "b"]);
+  queue.jump(1);
+
+  queue.previous();
+  queue.previous();
+  assert.deepEqual(changes, ["b", "a", "a"]);
+});
+
+test("previous wraps around when repeating all", () => {
+  const { queue, changes } = createQueue(["a", "b", "c"]);
+  queue.repeat = "all";
+
+  queue.previous();
+  assert.deepEqual(changes, ["c"]);
+});
+
+test("advance repeats the current item when repeating one", () => {
+  const { queue, changes } = createQueue(["a", "b"]);
+
+  queue.repeat = "one";
+  queue.advance();
+  queue.repeat = "off";
+  queue.advance();
+  assert.deepEqual(changes, ["a", "b"]);
+});
+
+test("jump rejects indexes without an item", () => {
+  const { queue } = createQueue(["a"]);
+  assert.throws(() => queue.jump(1), /No queue item at index 1/);
+});
+
+test("shuffling keeps the current item first and unshuffling restores the order", () => {
+  const names = ["a", "b", "c", "d", "e"];
+  const { queue, changes } = createQueue(names, () => 0);
+  queue.jump(2);
+
+  queue.shuffle = true;
+  assert.equal(order(queue)[0], "c");
+  assert.notDeepEqual(order(queue), ["c", "a", "b", "d", "e"]);
+  assert.deepEqual([...order(queue)].sort(), names);
+  assert.equal(queue.currentIndex, 0);
+
+  queue.add({ data: "f" });
+  queue.shuffle = false;
+  assert.deepEqual(order(queue), [...names, "f"]);
+  assert.equal(queue.current!.data, "c");
+  // Reordering doesn't restart the current item
+  assert.deepEqual(changes, ["c"]);
+});
+
+test("removing the current item skips to the next one", () => {
+  const { queue, changes } = createQueue(["a", "b", "c"]);
+
+  queue.remove(queue.items[0].id);
+  assert.deepEqual(order(queue), ["b", "c"]);
+  assert.deepEqual(changes, ["b"]);
+  queue.remove(queue.items[1].id);
+  assert.deepEqual(changes, ["b"]);
+});
+
+test("the current item changes before the update", () => {
+  const { queue } = createQueue(["a", "b"]);
+  const events: string[] = [];
+  queue.on("current-change", () => events.push("current-change"));
+  queue.on("update", () => events.push("update"));
+
+  queue.next();
+  assert.deepEqual(events, ["current-change", "update"]);
+});
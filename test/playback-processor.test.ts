@@ -0,0 +1,149 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PLAYBACK_PROCESSOR_SOURCE } from "../src/client/playback-processor.js";
+
+const BLOCK_SIZE = 128;
+
+interface Processor {
+  droppedFrames: number;
+  handleMessage(message: object): void;
+  process(inputs: unknown[], outputs: Float32Array[][]): boolean;
+}
+
+type ProcessorClass = new (options: object) => Processor;
+
+// Stands in for the AudioWorkletProcessor of the AudioWorkletGlobalScope
+class FakeWorkletProcessor {
+  public port = {
+    onmessage: null,
+    postMessage: () => {},
+  };
+}
+
+const scope = globalThis as unknown as { currentFrame: number };
+
+// Run the processor source outside an AudioWorklet
+function createProcessor(): Processor {
+  let Processor: ProcessorClass | null = null;
+  new Function(
+    "AudioWorkletProcessor",
+    "registerProcessor",
+    PLAYBACK_PROCESSOR_SOURCE,
+  )(FakeWorkletProcessor, (name: string, processorClass: ProcessorClass) => {
+    Processor = processorClass;
+  });
+  scope.currentFrame = 0;
+  return new Processor!({
+    processorOptions: {
+      hardSyncFrames: 480,
+      correctionIntervalFrames: 960,
+      statsIntervalFrames: 12000,
+    },
+  });
+}
+
+// Play blocks of audio, returns the first channel
+function render(processor: Processor, blocks: number): number[] {
+  const rendered: number[] = [];
+  for (let block = 0; block < blocks; block++) {
+    const output = [new Float32Array(BLOCK_SIZE), new Float32Array(BLOCK_SIZE)];
+    processor.process([], [output]);
+    rendered.push(...output[0]);
+    scope.currentFrame += BLOCK_SIZE;
+  }
+  return rendered;
+}
+
+// Audio whose samples tell which frame they are, starting at 1
+const ramp = (start: number, frames: number) => {
+  const channel = Float32Array.from(
+    { length: frames },
+    (_, i) => start + i + 1,
+  );
+  return [channel, channel.slice()];
+};
+
+test("plays queued audio from its start frame", () => {
+  const processor = createProcessor();
+  processor.handleMessage({
+    type: "chunk",
+    startFrame: 256,
+    channelData: ramp(0, 1000),
+  });
+
+  const rendered = render(processor, 4);
+  assert.deepEqual(rendered.slice(0, 256), new Array(256).fill(0));
+  assert.deepEqual(
+    rendered.slice(256),
+    Array.from({ length: 256 }, (_, i) => i + 1),
+  );
+});
+
+test("a flush ahead of playback cuts the queued audio", () => {
+  const processor = createProcessor();
+  processor.handleMessage({
+    type: "chunk",
+    startFrame: 0,
+    channelData: ramp(0, 4800),
+  });
+  render(processor, 2);
+  processor.handleMessage({ type: "flush", fromFrame: 300 });
+
+  const rendered = render(processor, 2);
+  assert.deepEqual(
+    rendered.slice(0, 44),
+    Array.from({ length: 44 }, (_, i) => 257 + i),
+  );
+  assert.deepEqual(rendered.slice(44), new Array(212).fill(0));
+});
+
+test("a flush behind playback does not play audio again", () => {
+  const processor = createProcessor();
+  processor.handleMessage({
+    type: "chunk",
+    startFrame: 0,
+    channelData: ramp(0, 4800),
+  });
+  render(processor, 10);
+  // Arrived after the flush time already played, with the audio that
+  // continues from there
+  processor.handleMessage({ type: "flush", fromFrame: 1000 });
+  processor.handleMessage({
+    type: "chunk",
+    startFrame: 1000,
+    channelData: ramp(10000, 4800),
+  });
+
+  const rendered = render(processor, 4);
+  // Playback continues with the new audio, catching up gradually
+  assert.equal(rendered[0], 10002);
+  assert.ok(rendered.every((sample) => sample > 10000));
+  assert.equal(processor.droppedFrames, 0);
+});
+
+test("drift corrections don't count as dropped frames", () => {
+  const processor = createProcessor();
+  processor.handleMessage({
+    type: "chunk",
+    startFrame: 0,
+    channelData: ramp(0, 2048),
+  });
+  // Due two frames before the first chunk ends
+  processor.handleMessage({
+    type: "chunk",
+    startFrame: 2046,
+    channelData: ramp(10000, 4096),
+  });
+
+  const rendered = render(processor, 40);
+  assert.equal(processor.droppedFrames, 0);
+  // One frame is skipped right away, the next one a correction interval
+  // later
+  assert.equal(rendered[2047], 2048);
+  assert.equal(rendered[2048], 10002);
+  const gaps = rendered
+    .slice(2048)
+    .filter((sample, i, samples) => i > 0 && sample !== samples[i - 1] + 1);
+  assert.equal(gaps.length, 1);
+  assert.equal(rendered[rendered.length - 1], 10000 + 3072 + 2);
+});
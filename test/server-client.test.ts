@@ -0,0 +1,146 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CloseCode,
+  MetadataUpdateMessage,
+  PlayerInfo,
+} from "../src/messages.js";
+import { FakeClock } from "../src/util/clock.js";
+import { advance, connectRawPlayer } from "./helpers.js";
+
+// A ServerClient talking to a player whose messages we write by hand
+async function connect(hello: Partial<PlayerInfo> = {}) {
+  const clock = new FakeClock();
+  return { clock, ...(await connectRawPlayer(clock, hello)) };
+}
+
+test("the client ID becomes the player ID", async () => {
+  const { client } = await connect({ version: 2 });
+  assert.equal(client.clientId, "kitchen");
+  assert.equal(client.protocolVersion, 2);
+});
+
+test("players without a version talk version 1", async () => {
+  const { client } = await connect();
+  assert.equal(client.protocolVersion, 1);
+});
+
+test("volume is only changed on players supporting it", async () => {
+  const { clock, client, received } = await connect({ version: 2 });
+
+  assert.equal(client.setVolume(50), false);
+  assert.equal(client.setMuted(true), false);
+  await advance(clock);
+  assert.equal(
+    received.some(({ type }) => type === "player/volume"),
+    false,
+  );
+});
+
+test("volume changes are sent to players supporting them", async () => {
+  const { clock, client, received } = await connect({
+    version: 2,
+    features: ["volume"],
+  });
+
+  assert.equal(client.setVolume(50.4), true);
+  await advance(clock);
+  assert.deepEqual(received[received.length - 1], {
+    type: "player/volume",
+    payload: { volume: 50 },
+  });
+});
+
+test("messages of later protocol versions are not sent", async () => {
+  const { clock, client, received } = await connect();
+
+  assert.equal(
+    client.send({ type: "stream/flush", payload: { timestamp: 0 } }),
+    false,
+  );
+  await advance(clock);
+  assert.deepEqual(
+    received.map(({ type }) => type),
+    ["source/hello"],
+  );
+});
+
+test("invalid messages are answered with an error", async () => {
+  const { clock, socket, received, closed } = await connect({ version: 2 });
+
+  socket.send(JSON.stringify({ type: "player/state", payload: {} }));
+  await advance(clock);
+  assert.equal(received[received.length - 1].type, "error");
+  assert.equal(closed.length, 0);
+});
+
+test("messages of unknown types are ignored", async () => {
+  const { clock, socket, received, closed } = await connect({ version: 2 });
+
+  socket.send(JSON.stringify({ type: "player/dance", payload: {} }));
+  await advance(clock);
+  assert.deepEqual(
+    received.map(({ type }) => type),
+    ["source/hello"],
+  );
+  assert.equal(closed.length, 0);
+});
+
+test("queue commands are only announced to players supporting them", async () => {
+  const metadata: MetadataUpdateMessage = {
+    type: "metadata/update",
+    payload: { title: "Song", support_commands: ["play", "next", "jump"] },
+  };
+  const old = await connect({ version: 3 });
+  const current = await connect({ version: 4 });
+
+  old.client.send(metadata);
+  current.client.send(metadata);
+  assert.equal(
+    old.client.send({
+      type: "queue/update",
+      payload: { items: [], current: null, repeat: "off", shuffle: false },
+    }),
+    false,
+  );
+  await advance(old.clock);
+  await advance(current.clock);
+  assert.deepEqual(old.received[old.received.length - 1], {
+    type: "metadata/update",
+    payload: { title: "Song", support_commands: ["play"] },
+  });
+  assert.deepEqual(current.received[current.received.length - 1], metadata);
+});
+
+const HEARTBEAT = { interval: 1000, timeout: 3000 };
+
+test("players that stop answering pings are disconnected", async () => {
+  const clock = new FakeClock();
+  const { socket, client, closed } = await connectRawPlayer(
+    clock,
+    {},
+    HEARTBEAT,
+  );
+  let stale = false;
+  client.on("stale", () => (stale = true));
+  // The player is gone without closing the connection
+  socket.transport.ping = () => {};
+
+  await advance(clock, 3000000, 100000);
+  assert.equal(client.transport.isOpen, true);
+  await advance(clock, 2000000, 100000);
+  assert.equal(stale, true);
+  assert.equal(client.transport.isOpen, false);
+  assert.deepEqual(closed, [
+    { code: CloseCode.HeartbeatTimeout, reason: "Heartbeat timeout" },
+  ]);
+});
+
+test("players answering pings stay connected", async () => {
+  const clock = new FakeClock();
+  const { client, closed } = await connectRawPlayer(clock, {}, HEARTBEAT);
+
+  await advance(clock, 60000000, 100000);
+  assert.equal(client.transport.isOpen, true);
+  assert.deepEqual(closed, []);
+});
@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PROTOCOL_VERSION } from "../src/messages.js";
+import { TestBed, connectRawPlayer } from "./helpers.js";
+
+async function setUp() {
+  const bed = new TestBed();
+  const player = await bed.connect("kitchen");
+  const { queue } = bed.group;
+  queue.add({ data: "a.wav", title: "A", duration: 10000000 });
+  queue.add({ data: "b.wav", title: "B", duration: 10000000 });
+  const session = bed.group.startSession();
+  session.updatePosition(5000000);
+  await bed.run();
+  return { bed, player, queue, session };
+}
+
+test("the metadata follows the current queue item", async () => {
+  const { bed, player, queue } = await setUp();
+  assert.equal(bed.group.activeSession!.metadata!.title, "A");
+
+  queue.next();
+  await bed.run();
+  assert.equal(bed.group.activeSession!.metadata!.title, "B");
+  assert.equal(player.client.getPosition(), null);
+});
+
+test("the position is kept while the current item doesn't change", async () => {
+  const { bed, player, queue } = await setUp();
+
+  queue.shuffle = true;
+  queue.repeat = "all";
+  await bed.run(1000000);
+  assert.equal(player.client.getPosition(), 6000000);
+});
+
+test("restarting the current item resets the position", async () => {
+  const { bed, player, queue, session } = await setUp();
+
+  queue.previous();
+  await bed.run();
+  assert.equal(queue.currentIndex, 0);
+  assert.equal(player.client.getPosition(), null);
+
+  session.updatePosition(5000000);
+  queue.repeat = "one";
+  queue.advance();
+  await bed.run();
+  assert.equal(player.client.getPosition(), null);
+});
+
+test("players skip through the queue", async () => {
+  const { bed, player, queue } = await setUp();
+  const updates: Array<number | null> = [];
+  player.client.on("queue-update", (update) =>
+    updates.push(update?.current ?? null),
+  );
+
+  player.client.sendStreamCommand("next");
+  await bed.run();
+  assert.equal(queue.current!.title, "B");
+  player.client.sendStreamCommand("previous");
+  await bed.run();
+  player.client.sendStreamCommand("jump", 1);
+  await bed.run();
+  assert.deepEqual(updates, [1, 0, 1]);
+});
+
+test("group volume changes reach every player supporting them", async () => {
+  const bed = new TestBed();
+  const kitchen = await bed.connect("kitchen");
+  const living = await bed.connect("living");
+  living.client.setVolume(50);
+  // A player of a protocol version before volume control
+  const old = await connectRawPlayer(bed.clock, {
+    player_id: "old",
+    version: 2,
+  });
+  bed.group.addClient(old.client);
+  await bed.run();
+  assert.equal(bed.group.volume, 75);
+
+  // Relative levels are kept
+  bed.group.setVolume(30);
+  bed.group.setMuted(true);
+  await bed.run();
+  assert.equal(kitchen.client.playerState.volume, 40);
+  assert.equal(living.client.playerState.volume, 20);
+  assert.equal(kitchen.client.playerState.muted, true);
+  assert.equal(living.client.playerState.muted, true);
+  assert.equal(bed.group.volume, 30);
+  assert.equal(
+    old.received.some(({ type }) => type === "player/volume"),
+    false,
+  );
+  assert.equal(old.client.transport.isOpen, true);
+});
+
+test("adding a member again does not send it the queue twice", async () => {
+  const bed = new TestBed();
+  bed.group.queue.add({ data: "a.wav", title: "A", duration: 10000000 });
+  const player = await connectRawPlayer(bed.clock, {
+    version: PROTOCOL_VERSION,
+  });
+
+  bed.group.addClient(player.client);
+  bed.group.addClient(player.client);
+  await bed.run();
+  assert.equal(
+    player.received.filter(({ type }) => type === "queue/update").length,
+    1,
+  );
+});
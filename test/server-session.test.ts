@@ -0,0 +1,219 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Logger } from "../src/logging.js";
+import type { Metadata, SessionInfo } from "../src/messages.js";
+import {
+  decodeCodecHeader,
+  encodeCodecHeader,
+} from "../src/audio/codec-header.js";
+import { createOpusHead } from "../src/audio/opus.js";
+import { FakeClock } from "../src/util/clock.js";
+import { ServerGroup } from "../src/server/server-group.js";
+import { advance, connectRawPlayer, silentLogger } from "./helpers.js";
+
+const METADATA: Metadata = {
+  title: "Song",
+  artist: null,
+  album: null,
+  year: null,
+  track: null,
+  group_members: [],
+  support_commands: [],
+  repeat: "off",
+  shuffle: false,
+};
+
+const sessionStart = (received: Array<{ type: string; payload?: unknown }>) =>
+  received.find(({ type }) => type === "session/start")!.payload as SessionInfo;
+
+test("players without a usable format are only negotiated with once", async () => {
+  const clock = new FakeClock();
+  const logs: string[] = [];
+  const logger: Logger = {
+    log: (message) => logs.push(message),
+    error: () => {},
+  };
+  const { client, received } = await connectRawPlayer(clock, {
+    support_codecs: ["opus"],
+    version: 3,
+  });
+
+  const group = new ServerGroup(logger, clock);
+  group.addClient(client);
+  const session = group.startSession("pcm", 48000, 2, 16);
+  for (let i = 0; i < 3; i++) {
+    session.sendMetadata({ ...METADATA, title: `Song ${i}` });
+  }
+  await advance(clock);
+  assert.equal(
+    logs.filter((message) => message.includes("usable audio format")).length,
+    1,
+  );
+  assert.equal(
+    received.some(({ type }) => type === "session/start"),
+    false,
+  );
+  session.end();
+});
+
+test("players receive audio converted to their own format", async () => {
+  const clock = new FakeClock(1000000);
+  const same1 = await connectRawPlayer(clock, { player_id: "same-1" });
+  const same2 = await connectRawPlayer(clock, { player_id: "same-2" });
+  const small = await connectRawPlayer(clock, {
+    player_id: "small",
+    support_channels: [1],
+    support_sample_rates: [24000],
+    support_bit_depth: [24],
+  });
+  const group = new ServerGroup(silentLogger, clock);
+  for (const player of [same1, same2, small]) {
+    group.addClient(player.client);
+  }
+  const session = group.startSession("pcm", 48000, 2, 16);
+  const timestamp = clock.now() + 200000;
+  const samples = new Float32Array(4800 * 2).fill(0.5);
+  session.sendPCMAudioChunk(
+    [samples.subarray(0, 4800), samples.subarray(4800)],
+    timestamp,
+  );
+  await advance(clock);
+
+  assert.deepEqual(
+    [same1, same2, small].map(({ received }) => {
+      const { sample_rate, channels, bit_depth } = sessionStart(received);
+      return [sample_rate, channels, bit_depth];
+    }),
+    [
+      [48000, 2, 16],
+      [48000, 2, 16],
+      [24000, 1, 24],
+    ],
+  );
+
+  // 13 byte header with the timestamp and sample count, then the samples
+  const header = (packet: ArrayBuffer) => {
+    const view = new DataView(packet);
+    return [Number(view.getBigInt64(1)), view.getUint32(9)];
+  };
+  assert.equal(same1.binary.length, 1);
+  assert.deepEqual(header(same1.binary[0]), [timestamp, 4800]);
+  assert.equal(same1.binary[0].byteLength, 13 + 4800 * 2 * 2);
+  assert.equal(new DataView(same1.binary[0]).getInt16(13, true), 16384);
+  assert.deepEqual(same2.binary, same1.binary);
+
+  assert.equal(small.binary.length, 1);
+  assert.deepEqual(header(small.binary[0]), [timestamp, 2400]);
+  assert.equal(small.binary[0].byteLength, 13 + 2400 * 3);
+  session.end();
+});
+
+// Connect a 48 kHz stereo 16-bit player to a session in the same format.
+async function stereoSession() {
+  const clock = new FakeClock(1000000);
+  const player = await connectRawPlayer(clock);
+  const group = new ServerGroup(silentLogger, clock);
+  group.addClient(player.client);
+  const session = group.startSession("pcm", 48000, 2, 16);
+  // Interleaved samples of the first packet the player received
+  const received = async () => {
+    await advance(clock);
+    const packet = player.binary[0];
+    return [...new Int16Array(packet.slice(13))];
+  };
+  return { clock, session, received };
+}
+
+test("planar audio is interleaved on the wire", async () => {
+  const { session, received } = await stereoSession();
+  session.sendPCMAudioChunk([
+    Float32Array.from([0.25, 0.5]),
+    Float32Array.from([-0.25, -0.5]),
+  ]);
+  assert.deepEqual(await received(), [8192, -8192, 16384, -16384]);
+  session.end();
+});
+
+test("audio frames are put in the standard channel order", async () => {
+  const { clock, session, received } = await stereoSession();
+  session.sendAudioFrame({
+    timestamp: clock.now(),
+    sampleRate: 48000,
+    channelData: [Float32Array.from([-0.25]), Float32Array.from([0.25])],
+    layout: ["FR", "FL"],
+  });
+  assert.deepEqual(await received(), [8192, -8192]);
+  session.end();
+});
+
+test("audio that does not fit the session channels is rejected", async () => {
+  const { clock, session } = await stereoSession();
+  assert.throws(
+    () => session.sendPCMAudioChunk([new Float32Array(4)]),
+    /Channel mismatch: expected 2, got 1/,
+  );
+  assert.throws(
+    () => session.sendPCMAudioChunk(new Int16Array(5)),
+    /Channel mismatch: 5 samples cannot be split into 2 channels/,
+  );
+  assert.throws(
+    () => session.sendPCMAudioChunk([new Float32Array(4), new Float32Array(3)]),
+    /All channels must have the same number of samples/,
+  );
+  assert.throws(
+    () =>
+      session.sendAudioFrame({
+        timestamp: clock.now(),
+        sampleRate: 48000,
+        channelData: [new Float32Array(4), new Float32Array(3)],
+      }),
+    /All channels must have the same number of samples/,
+  );
+  session.end();
+});
+
+test("pre-encoded audio is framed with its timestamps as is", async () => {
+  const clock = new FakeClock(1000000);
+  const player = await connectRawPlayer(clock, { support_codecs: ["opus"] });
+  const group = new ServerGroup(silentLogger, clock);
+  group.addClient(player.client);
+  const opusHead = createOpusHead({ channels: 2, inputSampleRate: 44100 });
+  const session = group.startSession(
+    "opus",
+    48000,
+    2,
+    16,
+    encodeCodecHeader(opusHead),
+  );
+
+  const start = clock.now() + 500000;
+  const frames = [0, 1, 2].map((i) => Uint8Array.from([0xfc, i, i + 1]));
+  frames.forEach((frame, i) =>
+    session.sendEncodedAudioChunk(frame, 960, start + i * 20000),
+  );
+  await advance(clock);
+
+  const { codec, codec_header } = sessionStart(player.received);
+  assert.equal(codec, "opus");
+  assert.deepEqual(decodeCodecHeader(codec_header!), opusHead);
+  assert.deepEqual(
+    player.binary.map((packet) => {
+      const view = new DataView(packet);
+      return {
+        timestamp: Number(view.getBigInt64(1)),
+        sampleCount: view.getUint32(9),
+        data: new Uint8Array(packet, 13),
+      };
+    }),
+    frames.map((data, i) => ({
+      timestamp: start + i * 20000,
+      sampleCount: 960,
+      data,
+    })),
+  );
+  assert.throws(
+    () => session.sendPCMAudioChunk(new Int16Array(4)),
+    /use sendEncodedAudioChunk/,
+  );
+  session.end();
+});
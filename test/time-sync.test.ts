@@ -0,0 +1,109 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TimeSync } from "../src/client/time-sync.js";
+
+// Add a sample every second for the given number of seconds from start, with
+// the offset the function gives for the local time
+function addSamples(
+  timeSync: TimeSync,
+  seconds: number,
+  offset: (localTime: number) => number,
+  rtt: number = 1000,
+  start: number = 0,
+) {
+  for (let i = 0; i < seconds; i++) {
+    const localTime = start + i * 1000000;
+    timeSync.addSample(localTime, offset(localTime), rtt);
+  }
+}
+
+function assertNear(actual: number, expected: number, tolerance: number) {
+  assert.ok(
+    Math.abs(actual - expected) <= tolerance,
+    `${actual} is not within ${tolerance} of ${expected}`,
+  );
+}
+
+test("a constant offset is estimated", () => {
+  const timeSync = new TimeSync();
+  addSamples(timeSync, 5, () => 5000);
+
+  const { offset, driftPpm, rtt } = timeSync.estimate;
+  assertNear(offset, 5000, 1e-6);
+  assert.equal(driftPpm, 0);
+  assert.equal(rtt, 1000);
+  assertNear(timeSync.localToServer(1000000), 1005000, 1e-6);
+  assertNear(timeSync.serverToLocal(1005000), 1000000, 1e-6);
+});
+
+test("the drift of the clocks is estimated", () => {
+  const timeSync = new TimeSync();
+  // Server clock runs 100ppm faster
+  addSamples(timeSync, 30, (localTime) => 1000 + localTime * 0.0001);
+
+  assertNear(timeSync.estimate.driftPpm, 100, 0.01);
+  assertNear(timeSync.localToServer(60000000), 60007000, 1);
+  assertNear(
+    timeSync.serverToLocal(timeSync.localToServer(60000000)),
+    60000000,
+    1,
+  );
+  assert.equal(timeSync.isStable, true);
+});
+
+test("drift is only estimated from samples spanning long enough", () => {
+  const timeSync = new TimeSync();
+  addSamples(timeSync, 5, (localTime) => 1000 + localTime * 0.0001);
+
+  assert.equal(timeSync.estimate.driftPpm, 0);
+  assert.equal(timeSync.isStable, false);
+});
+
+test("implausible drift is limited", () => {
+  const timeSync = new TimeSync();
+  addSamples(timeSync, 20, (localTime) => localTime * 0.0007);
+  assertNear(timeSync.estimate.driftPpm, 500, 1e-9);
+});
+
+test("exchanges with a long round trip are left out", () => {
+  const timeSync = new TimeSync();
+  addSamples(timeSync, 10, () => 5000);
+  // Delayed on the way back only, so the offset looks wrong
+  addSamples(timeSync, 10, () => -20000, 50000, 10000000);
+
+  assertNear(timeSync.estimate.offset, 5000, 1e-6);
+});
+
+test("a clock jump is only accepted once it is confirmed", () => {
+  const timeSync = new TimeSync();
+  addSamples(timeSync, 15, () => 5000);
+
+  assert.equal(timeSync.addSample(15000000, 1005000, 1000), false);
+  assert.equal(timeSync.addSample(16000000, 1005000, 1000), false);
+  assertNear(timeSync.estimate.offset, 5000, 1e-6);
+  assert.equal(timeSync.addSample(17000000, 1005000, 1000), true);
+  assertNear(timeSync.estimate.offset, 1005000, 1e-6);
+  assert.equal(timeSync.sampleCount, 3);
+});
+
+test("a single deviating exchange is ignored", () => {
+  const timeSync = new TimeSync();
+  addSamples(timeSync, 15, () => 5000);
+
+  timeSync.addSample(15000000, 1005000, 1000);
+  addSamples(timeSync, 2, () => 5000, 1000, 16000000);
+  timeSync.addSample(18000000, 1005000, 1000);
+  timeSync.addSample(19000000, 1005000, 1000);
+  assertNear(timeSync.estimate.offset, 5000, 1e-6);
+  assert.equal(timeSync.sampleCount, 17);
+});
+
+test("resetting forgets all samples", () => {
+  const timeSync = new TimeSync();
+  addSamples(timeSync, 15, () => 5000);
+
+  timeSync.reset();
+  assert.equal(timeSync.sampleCount, 0);
+  assert.equal(timeSync.estimate.offset, 0);
+  assert.equal(timeSync.isStable, false);
+});
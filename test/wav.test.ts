@@ -0,0 +1,254 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeWavSamples, readWavHeader } from "../src/audio/wav.js";
+
+const PCM = 0x0001;
+const FLOAT = 0x0003;
+const EXTENSIBLE = 0xfffe;
+
+// Speaker mask of 5.1 with side speakers: FL FR FC LFE SL SR
+const MASK_5_1_SIDE = 0x60f;
+
+function bytes(size: number, fill: (data: DataView) => void): Uint8Array {
+  const data = new Uint8Array(size);
+  fill(new DataView(data.buffer));
+  return data;
+}
+
+function chunk(id: string, body: Uint8Array, size = body.length): Uint8Array {
+  const header = bytes(8, (data) => {
+    [...id].forEach((char, i) => data.setUint8(i, char.charCodeAt(0)));
+    data.setUint32(4, size, true);
+  });
+  // Padded to an even size
+  const padding = new Uint8Array(body.length % 2);
+  return concat(header, body, padding);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function fmt(
+  formatTag: number,
+  channels: number,
+  bitDepth: number,
+  extensible?: { mask: number; subFormat: number },
+): Uint8Array {
+  return chunk(
+    "fmt ",
+    bytes(extensible ? 40 : 16, (data) => {
+      data.setUint16(0, formatTag, true);
+      data.setUint16(2, channels, true);
+      data.setUint32(4, 48000, true);
+      data.setUint32(8, (48000 * channels * bitDepth) / 8, true);
+      data.setUint16(12, (channels * bitDepth) / 8, true);
+      data.setUint16(14, bitDepth, true);
+      if (extensible) {
+        data.setUint16(16, 22, true);
+        data.setUint16(18, bitDepth, true);
+        data.setUint32(20, extensible.mask, true);
+        data.setUint16(24, extensible.subFormat, true);
+      }
+    }),
+  );
+}
+
+function wav(container: "RIFF" | "RF64", ...chunks: Uint8Array[]) {
+  const body = concat(...chunks);
+  const header = chunk(container, new TextEncoder().encode("WAVE"));
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat(header, body);
+}
+
+const reader = (file: Uint8Array) => async (offset: number, length: number) =>
+  file.subarray(offset, offset + length);
+
+async function parse(file: Uint8Array) {
+  const header = await readWavHeader(reader(file));
+  const samples = file.subarray(
+    header.dataOffset,
+    header.dataSize === null ? undefined : header.dataOffset + header.dataSize,
+  );
+  return { ...header, channelData: decodeWavSamples(samples, header.format) };
+}
+
+test("16-bit PCM is read", async () => {
+  const samples = bytes(8, (data) => {
+    data.setInt16(0, 0x4000, true);
+    data.setInt16(2, -0x8000, true);
+    data.setInt16(4, 0, true);
+    data.setInt16(6, 0x2000, true);
+  });
+  const { format, dataSize, channelData } = await parse(
+    wav("RIFF", fmt(PCM, 2, 16), chunk("data", samples)),
+  );
+
+  assert.deepEqual(format, {
+    sampleRate: 48000,
+    channels: 2,
+    bitDepth: 16,
+    isFloat: false,
+    blockAlign: 4,
+    layout: undefined,
+  });
+  assert.equal(dataSize, 8);
+  assert.deepEqual(
+    channelData.map((channel) => [...channel]),
+    [
+      [0.5, 0],
+      [-1, 0.25],
+    ],
+  );
+});
+
+test("32 and 64-bit float samples are read", async () => {
+  const float32 = await parse(
+    wav(
+      "RIFF",
+      fmt(FLOAT, 1, 32),
+      chunk(
+        "data",
+        bytes(4, (data) => data.setFloat32(0, -0.75, true)),
+      ),
+    ),
+  );
+  assert.equal(float32.format.isFloat, true);
+  assert.deepEqual([...float32.channelData[0]], [-0.75]);
+
+  const float64 = await parse(
+    wav(
+      "RIFF",
+      fmt(FLOAT, 1, 64),
+      chunk(
+        "data",
+        bytes(8, (data) => data.setFloat64(0, 0.125, true)),
+      ),
+    ),
+  );
+  assert.deepEqual([...float64.channelData[0]], [0.125]);
+});
+
+test("extensible formats take the sub format and the speaker layout", async () => {
+  const samples = bytes(6 * 3, (data) => {
+    for (let c = 0; c < 6; c++) {
+      // Channel c has the value c / 8
+      data.setUint8(c * 3, 0);
+      data.setInt16(c * 3 + 1, c * 0x1000, true);
+    }
+  });
+  const { format, channelData } = await parse(
+    wav(
+      "RIFF",
+      fmt(EXTENSIBLE, 6, 24, { mask: MASK_5_1_SIDE, subFormat: PCM }),
+      chunk("data", samples),
+    ),
+  );
+
+  assert.equal(format.isFloat, false);
+  // The side speakers play on the back channels
+  assert.deepEqual(format.layout, ["FL", "FR", "FC", "LFE", "BL", "BR"]);
+  assert.deepEqual(
+    channelData.map((channel) => channel[0]),
+    [0, 0.125, 0.25, 0.375, 0.5, 0.625],
+  );
+
+  const float = await parse(
+    wav(
+      "RIFF",
+      fmt(EXTENSIBLE, 1, 32, { mask: 0x4, subFormat: FLOAT }),
+      chunk(
+        "data",
+        bytes(4, (data) => data.setFloat32(0, 0.5, true)),
+      ),
+    ),
+  );
+  assert.equal(float.format.isFloat, true);
+  assert.deepEqual([...float.channelData[0]], [0.5]);
+});
+
+test("unknown speaker layouts keep the file order", async () => {
+  const { format } = await parse(
+    wav(
+      "RIFF",
+      // Front left and front center
+      fmt(EXTENSIBLE, 2, 16, { mask: 0x5, subFormat: PCM }),
+      chunk("data", new Uint8Array(4)),
+    ),
+  );
+  assert.equal(format.layout, undefined);
+});
+
+test("RF64 files take the data size from the ds64 chunk", async () => {
+  const ds64 = chunk(
+    "ds64",
+    bytes(28, (data) => {
+      // RIFF size, then data size of 2^32 + 4 bytes
+      data.setUint32(8, 4, true);
+      data.setUint32(12, 1, true);
+    }),
+  );
+  const { dataSize } = await readWavHeader(
+    reader(
+      wav(
+        "RF64",
+        ds64,
+        fmt(PCM, 2, 16),
+        chunk("data", new Uint8Array(8), 0xffffffff),
+      ),
+    ),
+  );
+  assert.equal(dataSize, 2 ** 32 + 4);
+});
+
+test("data of unknown size runs to the end of the file", async () => {
+  const { dataSize } = await readWavHeader(
+    reader(wav("RIFF", fmt(PCM, 2, 16), chunk("data", new Uint8Array(8), 0))),
+  );
+  assert.equal(dataSize, null);
+});
+
+test("other chunks are skipped, including their padding", async () => {
+  const { dataOffset, channelData } = await parse(
+    wav(
+      "RIFF",
+      chunk("LIST", new Uint8Array(3)),
+      fmt(PCM, 1, 16),
+      chunk(
+        "data",
+        bytes(2, (data) => data.setInt16(0, 0x4000, true)),
+      ),
+    ),
+  );
+  assert.equal(dataOffset, 12 + 12 + 24 + 8);
+  assert.deepEqual([...channelData[0]], [0.5]);
+});
+
+test("unsupported files are rejected", async () => {
+  await assert.rejects(
+    readWavHeader(reader(new TextEncoder().encode("RIFF....AVI LIST"))),
+    /Not a WAVE file/,
+  );
+  await assert.rejects(
+    readWavHeader(reader(wav("RIFF", fmt(0x55, 2, 16)))),
+    /Unsupported WAVE format 0x55/,
+  );
+  await assert.rejects(
+    readWavHeader(reader(wav("RIFF", fmt(FLOAT, 2, 16)))),
+    /Unsupported WAVE sample size of 16 bits for float/,
+  );
+  await assert.rejects(
+    readWavHeader(reader(wav("RIFF", fmt(PCM, 2, 16)))),
+    /no data chunk/,
+  );
+  await assert.rejects(
+    readWavHeader(reader(wav("RIFF", chunk("data", new Uint8Array(4))))),
+    /no format chunk before its data/,
+  );
+});